@@ -25,6 +25,36 @@
 
 // Export the Result class
 export { Result } from './src/result.ts';
+export type { Err, InferError, InferValue, Ok, ResultValues } from './src/result.ts';
+
+/**
+ * Chainable asynchronous Result, returned by `fromPromise`, `asyncMap` and friends
+ *
+ * @example
+ * ```typescript
+ * import { AsyncResult } from '@szymdzum/result-monad';
+ *
+ * const name = await AsyncResult.fromPromise(fetchUser(id))
+ *   .map((user) => user.name)
+ *   .getOrElse('anonymous');
+ * ```
+ */
+export { AsyncResult } from './src/async-result.ts';
+export type { TimeoutErrorOf, TimeoutOptions } from './src/async-result.ts';
+
+/**
+ * Optional values that model "absent" explicitly, convertible to and from Result
+ *
+ * @example
+ * ```typescript
+ * import { Option } from '@szymdzum/result-monad';
+ *
+ * const user = Option.fromNullable(cache.get(id))
+ *   .filter((user) => user.active)
+ *   .toResult(() => new NotFoundError('User', id));
+ * ```
+ */
+export { Option } from './src/option.ts';
 
 // Export all error types
 /**
@@ -45,15 +75,24 @@ export { Result } from './src/result.ts';
 export {
   BusinessRuleError,
   CancellationError,
+  CircuitOpenError,
+  CompositeError,
   ConcurrencyError,
   NotFoundError,
+  RejectedError,
   ResultError,
+  RetryError,
   TechnicalError,
   TimeoutError,
   UnauthorizedError,
   ValidationError,
 } from './src/errors.ts';
 
+/**
+ * Types for matching on error classes with `matchError` and `recoverWhen`
+ */
+export type { ErrorClass, ErrorHandlers } from './src/error-match.ts';
+
 // Export all utility functions
 /**
  * Utility functions for working with Result objects
@@ -72,15 +111,98 @@ export {
  * ```
  */
 export {
+  allAsync,
+  allSettled,
+  allSettledAsync,
+  anyAsync,
   combineResults,
   fromPredicate,
+  mapConcurrent,
   mapResult,
+  partition,
+  partitionAsync,
   promisifyWithResult,
-  retry,
+  sequence,
+  sequenceAsync,
+  traverse,
+  traverseAsync,
   tryCatchAsync,
   withFallback,
+  withTimeout,
 } from './src/utils.ts';
 
+/**
+ * Retrying operations with a retry policy
+ *
+ * @example
+ * ```typescript
+ * import { retry } from '@szymdzum/result-monad';
+ *
+ * const user = await retry((attempt, signal) => fetchUser(id, signal), {
+ *   maxAttempts: 5,
+ *   jitter: 'full',
+ *   deadlineMs: 10_000,
+ * });
+ * ```
+ */
+export { isRetryableError, retry } from './src/retry.ts';
+export type { RetryJitter, RetryPolicy } from './src/retry.ts';
+
+/**
+ * Circuit breaker failing fast while a dependency is down
+ *
+ * @example
+ * ```typescript
+ * import { CircuitBreaker } from '@szymdzum/result-monad';
+ *
+ * const breaker = new CircuitBreaker({ name: 'payments', failureThreshold: 3 });
+ * const payment = await breaker.call(() => chargeCard(order));
+ * ```
+ */
+export { CircuitBreaker } from './src/circuit-breaker.ts';
+export type { CircuitBreakerOptions, CircuitState } from './src/circuit-breaker.ts';
+
+/**
+ * Admission control limiting concurrency and call rates
+ *
+ * @example
+ * ```typescript
+ * import { Bulkhead, RateLimiter } from '@szymdzum/result-monad';
+ *
+ * const database = new Bulkhead({ maxConcurrent: 5, maxQueue: 50 });
+ * const partnerApi = new RateLimiter({ tokensPerInterval: 10, intervalMs: 1000 });
+ *
+ * const rows = await database.run((signal) => query(sql, { signal }));
+ * ```
+ */
+export { Bulkhead, RateLimiter } from './src/admission-control.ts';
+export type { BulkheadOptions, RateLimiterOptions, RunOptions } from './src/admission-control.ts';
+
+/**
+ * Builder combining timeouts, retries, circuit breaking, admission control and fallbacks
+ *
+ * @example
+ * ```typescript
+ * import { resilience } from '@szymdzum/result-monad';
+ *
+ * const policy = resilience()
+ *   .timeout(10_000)
+ *   .retry({ maxAttempts: 3 })
+ *   .circuitBreaker({ failureThreshold: 5 })
+ *   .fallback(() => Result.ok(cachedProfile));
+ *
+ * const profile = await policy.execute((signal) => fetchProfile(id, signal));
+ * ```
+ */
+export { resilience, ResiliencePolicy } from './src/resilience.ts';
+export type { AttemptEvent, ResilienceError } from './src/resilience.ts';
+
+/**
+ * Injectable time source used by time-based utilities
+ */
+export { systemClock } from './src/clock.ts';
+export type { Clock } from './src/clock.ts';
+
 // Export validation utilities
 /**
  * Validation utilities for building validation pipelines
@@ -98,10 +220,140 @@ export {
  * }
  * ```
  */
-export { validate, Validator } from './src/validation.ts';
+export { lazy, validate, Validator } from './src/validation.ts';
+export type { RefineOptions, ValidationRules, ValidatorOptions } from './src/validation.ts';
+
+/**
+ * Reusable validator definitions, built once and applied to any number of values
+ *
+ * @example
+ * ```typescript
+ * import { rules } from '@szymdzum/result-monad';
+ *
+ * const userRules = rules<User>()
+ *   .property('name', name => name.notEmpty().maxLength(100))
+ *   .property('email', email => email.notEmpty().email());
+ *
+ * const result = userRules.validate(user);
+ * ```
+ */
+export { rules, RuleSet } from './src/rule-set.ts';
+
+/**
+ * Typed schemas parsing unknown input into validated values
+ *
+ * @example
+ * ```typescript
+ * import { type Infer, s } from '@szymdzum/result-monad';
+ *
+ * const userSchema = s.object({ name: s.string().min(1), age: s.number().int().optional() });
+ * type User = Infer<typeof userSchema>;
+ *
+ * const user = userSchema.parse(await request.json()); // Result<User, ValidationError>
+ * ```
+ */
+export {
+  ArraySchema,
+  BooleanSchema,
+  LiteralSchema,
+  NumberSchema,
+  ObjectSchema,
+  RecordSchema,
+  s,
+  Schema,
+  StringSchema,
+  TupleSchema,
+  UnionSchema,
+  UnknownSchema,
+} from './src/schema.ts';
+export type { Infer } from './src/schema.ts';
+
+/**
+ * JSON Schema (draft 2020-12) export and import for schemas
+ *
+ * @example
+ * ```typescript
+ * import { fromJsonSchema, toJsonSchema } from '@szymdzum/result-monad';
+ *
+ * openApi.components.schemas.User = toJsonSchema(userSchema);
+ *
+ * const orderSchema = fromJsonSchema<Order>(openApi.components.schemas.Order);
+ * const order = orderSchema.parse(await request.json()); // Result<Order, ValidationError>
+ * ```
+ */
+export { fromJsonSchema, toJsonSchema } from './src/json-schema.ts';
+export type { JsonSchema, JsonSchemaType } from './src/json-schema.ts';
+
+/**
+ * Adapters turning Zod, Yup and Standard Schema (Valibot, ArkType, ...) validation into Results
+ *
+ * @example
+ * ```typescript
+ * import { fromStandardSchema, fromZod } from '@szymdzum/result-monad';
+ *
+ * const parseUser = fromZod(userSchema);
+ * const user = parseUser(await request.json()); // Result<z.infer<typeof userSchema>, ValidationError>
+ *
+ * const parseConfig = fromStandardSchema(valibotConfigSchema);
+ * ```
+ */
+export {
+  fromStandardSchema,
+  fromStandardSchemaAsync,
+  fromYup,
+  fromYupAsync,
+  fromZod,
+  fromZodAsync,
+} from './src/adapters.ts';
+export type {
+  StandardSchema,
+  StandardSchemaIssue,
+  StandardSchemaResult,
+  YupAsyncSchema,
+  YupError,
+  YupIssue,
+  YupSchema,
+  ZodAsyncSchema,
+  ZodError,
+  ZodIssue,
+  ZodSchema,
+} from './src/adapters.ts';
+
+/**
+ * Helpers for the structured issues carried by `ValidationError`
+ *
+ * @example
+ * ```typescript
+ * const result = validateUser(input);
+ * if (result.isFailure) {
+ *   form.setErrors(result.error.flatten()); // { 'address.city': ['address.city cannot be empty'] }
+ * }
+ * ```
+ */
+export { flattenIssues, formatPath, parsePath } from './src/issues.ts';
+export type { ValidationIssue } from './src/issues.ts';
+
+/**
+ * Message catalogs for rendering validation messages in any language
+ *
+ * @example
+ * ```typescript
+ * import { type MessageCatalog } from '@szymdzum/result-monad';
+ *
+ * const polish: MessageCatalog = {
+ *   required: '{path} jest wymagane',
+ *   max: '{path} nie może przekraczać {max}',
+ * };
+ *
+ * validateUser(user).validate({ locale: 'pl', messages: polish });
+ * ```
+ */
+export { englishMessages } from './src/messages.ts';
+export type { MessageCatalog, MessageFormatter, MessageOptions } from './src/messages.ts';
 
 // Export individual functions from Result (for tree-shaking optimization)
 import { Result as ResultClass } from './src/result.ts';
+import { Option as OptionClass } from './src/option.ts';
 
 // Static methods as standalone functions
 /**
@@ -140,7 +392,8 @@ export const cancelled = ResultClass.cancelled;
  * ```typescript
  * import { fromPromise } from '@szymdzum/result-monad';
  *
- * const result = await fromPromise(fetch('/api/users'));
+ * const result = await fromPromise(fetch('/api/users'))
+ *   .flatMap((response) => fromPromise(response.json()));
  * ```
  */
 export const fromPromise = ResultClass.fromPromise;
@@ -156,3 +409,25 @@ export const fromPromise = ResultClass.fromPromise;
  * ```
  */
 export const fromThrowable = ResultClass.fromThrowable;
+
+/**
+ * Creates an option holding the given value
+ *
+ * @example
+ * ```typescript
+ * import { some } from '@szymdzum/result-monad';
+ *
+ * const option = some(42);
+ * ```
+ */
+export const some = OptionClass.some;
+
+/**
+ * Returns the empty option
+ */
+export const none = OptionClass.none;
+
+/**
+ * Creates an option from a value that may be null or undefined
+ */
+export const fromNullable = OptionClass.fromNullable;
@@ -0,0 +1,153 @@
+// @ts-nocheck - Deno imports are not recognized by TypeScript
+import { assertEquals, assertThrows } from 'jsr:@std/assert';
+import {
+  fromStandardSchema,
+  fromStandardSchemaAsync,
+  fromYup,
+  fromYupAsync,
+  fromZod,
+  fromZodAsync,
+} from './adapters.ts';
+
+/**
+ * Creates a fake Standard Schema accepting non-empty strings and trimming them
+ */
+function trimmedString(async = false): {
+  '~standard': { version: 1; vendor: string; validate: (value: unknown) => unknown };
+} {
+  const check = (value: unknown): unknown =>
+    typeof value === 'string' && value.trim() !== ''
+      ? { value: value.trim() }
+      : { issues: [{ message: 'Expected a non-empty string', path: [{ key: 'name' }, 0] }] };
+
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'fake',
+      validate: (value) => async ? Promise.resolve(check(value)) : check(value),
+    },
+  };
+}
+
+Deno.test('Adapters - Zod', async (t) => {
+  await t.step('returns the parsed output rather than the input', () => {
+    const schema = { parse: (data) => ({ ...data, age: Number(data.age) }) };
+
+    assertEquals(fromZod(schema)({ age: '42' }).value, { age: 42 });
+  });
+
+  await t.step('maps Zod issues', () => {
+    const schema = {
+      parse: () => {
+        throw {
+          issues: [
+            { path: ['items', 0, 'price'], message: 'Too small', code: 'too_small', minimum: 1 },
+          ],
+        };
+      },
+    };
+
+    const result = fromZod(schema)({});
+
+    assertEquals(result.error.issues, [
+      {
+        path: ['items', 0, 'price'],
+        code: 'too_small',
+        message: 'Too small',
+        params: { minimum: 1 },
+      },
+    ]);
+    assertEquals(result.error.message, 'Validation Error: items.0.price: Too small');
+  });
+
+  await t.step('maps the errors of Zod 3', () => {
+    const schema = {
+      parse: () => {
+        throw { errors: [{ path: ['name'], message: 'Required', code: 'invalid_type' }] };
+      },
+    };
+
+    assertEquals(fromZod(schema)({}).error.issues[0].path, ['name']);
+  });
+
+  await t.step('parses asynchronously with parseAsync', async () => {
+    const schema = {
+      parseAsync: (data) =>
+        data === 'taken'
+          ? Promise.reject({ issues: [{ path: [], message: 'Taken', code: 'custom' }] })
+          : Promise.resolve(data.toUpperCase()),
+    };
+
+    assertEquals((await fromZodAsync(schema)('free')).value, 'FREE');
+    assertEquals((await fromZodAsync(schema)('taken')).error.issues[0].message, 'Taken');
+  });
+});
+
+Deno.test('Adapters - Yup', async (t) => {
+  await t.step('returns the cast output rather than the input', () => {
+    const schema = { validateSync: (data) => String(data).trim() };
+
+    assertEquals(fromYup(schema)(' Ann ').value, 'Ann');
+  });
+
+  await t.step('maps Yup errors and parses their paths', () => {
+    const schema = {
+      validateSync: () => {
+        throw {
+          inner: [{ path: 'items[0].name', message: 'Required', type: 'required' }],
+        };
+      },
+    };
+
+    const result = fromYup(schema)({});
+
+    assertEquals(result.error.issues, [
+      { path: ['items', 0, 'name'], code: 'required', message: 'Required' },
+    ]);
+    assertEquals(result.error.flatten(), { 'items[0].name': ['Required'] });
+  });
+
+  await t.step('maps a single failed test reported by the error itself', () => {
+    const schema = {
+      validateSync: () => {
+        throw { inner: [], path: '', message: 'Must be an object', type: 'typeError' };
+      },
+    };
+
+    assertEquals(fromYup(schema)(null).error.issues, [
+      { path: [], code: 'typeError', message: 'Must be an object' },
+    ]);
+  });
+
+  await t.step('validates asynchronously with validate', async () => {
+    const schema = {
+      validate: (data, options) => Promise.resolve({ data, abortEarly: options.abortEarly }),
+    };
+
+    assertEquals((await fromYupAsync(schema)(1)).value, { data: 1, abortEarly: false });
+  });
+});
+
+Deno.test('Adapters - Standard Schema', async (t) => {
+  await t.step('returns the validated output', () => {
+    assertEquals(fromStandardSchema(trimmedString())(' Ann ').value, 'Ann');
+  });
+
+  await t.step('maps issues and their path segments', () => {
+    const result = fromStandardSchema(trimmedString())('');
+
+    assertEquals(result.error.issues, [
+      { path: ['name', 0], code: 'custom', message: 'Expected a non-empty string' },
+    ]);
+    assertEquals(result.error.message, 'Validation Error: name.0: Expected a non-empty string');
+  });
+
+  await t.step('rejects asynchronous schemas in the synchronous adapter', () => {
+    assertThrows(() => fromStandardSchema(trimmedString(true))('Ann'), TypeError);
+  });
+
+  await t.step('validates asynchronous schemas', async () => {
+    assertEquals((await fromStandardSchemaAsync(trimmedString(true))(' Ann ')).value, 'Ann');
+    assertEquals((await fromStandardSchemaAsync(trimmedString())('')).isFailure, true);
+  });
+});
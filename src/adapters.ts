@@ -0,0 +1,318 @@
+import { AsyncResult } from './async-result.ts';
+import { ValidationError } from './errors.ts';
+import { parsePath, type ValidationIssue } from './issues.ts';
+import { Result } from './result.ts';
+
+/**
+ * A Zod schema, validating input with `parse`
+ */
+export interface ZodSchema<T> {
+  parse: (data: unknown) => T;
+}
+
+/**
+ * A Zod schema with asynchronous refinements or transforms, validating input with `parseAsync`
+ */
+export interface ZodAsyncSchema<T> {
+  parseAsync: (data: unknown) => Promise<T>;
+}
+
+/**
+ * An issue of a Zod error. Properties besides the path, code and message become the issue params.
+ */
+export interface ZodIssue {
+  path: PropertyKey[];
+  message: string;
+  code?: string;
+  [param: string]: unknown;
+}
+
+/**
+ * A Zod error, listing its issues as `issues` (or `errors` before Zod 4)
+ */
+export interface ZodError {
+  issues?: ZodIssue[];
+  errors?: ZodIssue[];
+}
+
+/**
+ * A Yup schema, validating input with `validateSync`
+ */
+export interface YupSchema<T> {
+  validateSync: (data: unknown, options?: { abortEarly?: boolean }) => T;
+}
+
+/**
+ * A Yup schema with asynchronous tests, validating input with `validate`
+ */
+export interface YupAsyncSchema<T> {
+  validate: (data: unknown, options?: { abortEarly?: boolean }) => Promise<T>;
+}
+
+/**
+ * A single failed test of a Yup error
+ */
+export interface YupIssue {
+  path?: string;
+  message: string;
+  type?: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * A Yup error, listing every failed test as `inner` when validated with `abortEarly: false`
+ */
+export interface YupError extends YupIssue {
+  inner: YupIssue[];
+}
+
+/**
+ * The outcome of validating input with a Standard Schema
+ */
+export type StandardSchemaResult<T> =
+  | { readonly value: T; readonly issues?: undefined }
+  | { readonly issues: readonly StandardSchemaIssue[] };
+
+/**
+ * An issue of a Standard Schema, located by property keys or path segments
+ */
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: readonly (PropertyKey | { readonly key: PropertyKey })[];
+}
+
+/**
+ * A schema implementing the Standard Schema interface (version 1), such as a Valibot, ArkType or
+ * Zod schema
+ *
+ * @see https://standardschema.dev
+ */
+export interface StandardSchema<T> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>;
+  };
+}
+
+/**
+ * Integrates with Zod validation library.
+ *
+ * @param schema - A Zod schema
+ * @returns A function that parses unknown input into the schema's output as a Result
+ *
+ * @example
+ * ```typescript
+ * const userSchema = z.object({
+ *   name: z.string().min(1),
+ *   email: z.string().email()
+ * });
+ *
+ * const parseUser = fromZod(userSchema);
+ * const result = parseUser(await request.json()); // Result<z.infer<typeof userSchema>, ...>
+ * ```
+ */
+export const fromZod = <T>(schema: ZodSchema<T>): (data: unknown) => Result<T, ValidationError> => {
+  return (data: unknown) => {
+    try {
+      return Result.ok<T, ValidationError>(schema.parse(data));
+    } catch (error) {
+      return Result.fail<T, ValidationError>(fromZodError(error));
+    }
+  };
+};
+
+/**
+ * Integrates with Zod schemas using asynchronous refinements or transforms.
+ *
+ * @param schema - A Zod schema
+ * @returns A function that parses unknown input into the schema's output as an AsyncResult
+ *
+ * @example
+ * ```typescript
+ * const signupSchema = z.object({
+ *   email: z.string().email().refine(async (email) => !(await users.exists(email))),
+ * });
+ *
+ * const result = await fromZodAsync(signupSchema)(body);
+ * ```
+ */
+export const fromZodAsync = <T>(
+  schema: ZodAsyncSchema<T>,
+): (data: unknown) => AsyncResult<T, ValidationError> => {
+  return (data: unknown) =>
+    AsyncResult.from(
+      (async (): Promise<Result<T, ValidationError>> => {
+        try {
+          return Result.ok<T, ValidationError>(await schema.parseAsync(data));
+        } catch (error) {
+          return Result.fail<T, ValidationError>(fromZodError(error));
+        }
+      })(),
+    );
+};
+
+/**
+ * Integrates with Yup validation library.
+ *
+ * @param schema - A Yup schema
+ * @returns A function that validates unknown input into the schema's cast output as a Result
+ *
+ * @example
+ * ```typescript
+ * const userSchema = yup.object({
+ *   name: yup.string().required(),
+ *   email: yup.string().email().required()
+ * });
+ *
+ * const parseUser = fromYup(userSchema);
+ * const result = parseUser(formData);
+ * ```
+ */
+export const fromYup = <T>(schema: YupSchema<T>): (data: unknown) => Result<T, ValidationError> => {
+  return (data: unknown) => {
+    try {
+      return Result.ok<T, ValidationError>(schema.validateSync(data, { abortEarly: false }));
+    } catch (error) {
+      return Result.fail<T, ValidationError>(fromYupError(error));
+    }
+  };
+};
+
+/**
+ * Integrates with Yup schemas using asynchronous tests.
+ *
+ * @param schema - A Yup schema
+ * @returns A function that validates unknown input into the schema's cast output as an
+ * AsyncResult
+ */
+export const fromYupAsync = <T>(
+  schema: YupAsyncSchema<T>,
+): (data: unknown) => AsyncResult<T, ValidationError> => {
+  return (data: unknown) =>
+    AsyncResult.from(
+      (async (): Promise<Result<T, ValidationError>> => {
+        try {
+          return Result.ok<T, ValidationError>(
+            await schema.validate(data, { abortEarly: false }),
+          );
+        } catch (error) {
+          return Result.fail<T, ValidationError>(fromYupError(error));
+        }
+      })(),
+    );
+};
+
+/**
+ * Integrates with any validation library implementing the Standard Schema interface, such as
+ * Valibot or ArkType. Issues use the `custom` code, as Standard Schema issues carry no code.
+ *
+ * @param schema - A Standard Schema
+ * @returns A function that validates unknown input into the schema's output as a Result
+ * @throws TypeError if the schema validates asynchronously, which requires
+ * `fromStandardSchemaAsync`
+ *
+ * @example
+ * ```typescript
+ * const userSchema = v.object({ name: v.pipe(v.string(), v.minLength(1)) });
+ *
+ * const result = fromStandardSchema(userSchema)(input);
+ * ```
+ */
+export const fromStandardSchema = <T>(
+  schema: StandardSchema<T>,
+): (data: unknown) => Result<T, ValidationError> => {
+  return (data: unknown) => {
+    const result = schema['~standard'].validate(data);
+    if (result instanceof Promise) {
+      throw new TypeError('Schema validates asynchronously, use fromStandardSchemaAsync() instead');
+    }
+    return fromStandardResult(result);
+  };
+};
+
+/**
+ * Integrates with Standard Schemas that may validate asynchronously.
+ *
+ * @param schema - A Standard Schema
+ * @returns A function that validates unknown input into the schema's output as an AsyncResult
+ */
+export const fromStandardSchemaAsync = <T>(
+  schema: StandardSchema<T>,
+): (data: unknown) => AsyncResult<T, ValidationError> => {
+  return (data: unknown) =>
+    AsyncResult.from(
+      (async (): Promise<Result<T, ValidationError>> =>
+        fromStandardResult(await schema['~standard'].validate(data)))(),
+    );
+};
+
+/**
+ * Converts an error thrown by a Zod schema into a ValidationError with its issues
+ */
+function fromZodError(error: unknown): ValidationError {
+  const zodIssues = (error as ZodError).issues ?? (error as ZodError).errors;
+  if (!zodIssues) {
+    return new ValidationError(String(error), error instanceof Error ? error : undefined);
+  }
+
+  const issues = zodIssues.map(
+    ({ path, message, code = 'custom', ...params }): ValidationIssue => ({
+      path: path.map(toPathKey),
+      code,
+      message,
+      ...(Object.keys(params).length > 0 && { params }),
+    }),
+  );
+  const errorMessages = issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+  return new ValidationError(errorMessages.join(', '), undefined, issues);
+}
+
+/**
+ * Converts an error thrown by a Yup schema into a ValidationError with its issues
+ */
+function fromYupError(error: unknown): ValidationError {
+  const yupError = error as YupError;
+  if (!yupError.inner) {
+    return new ValidationError(String(error), error instanceof Error ? error : undefined);
+  }
+
+  // A single failed test is reported by the error itself rather than in `inner`
+  const inner = yupError.inner.length > 0 ? yupError.inner : [yupError];
+  const issues = inner.map(({ path = '', message, type = 'custom', params }) => ({
+    path: parsePath(path),
+    code: type,
+    message,
+    ...(params && { params }),
+  }));
+  const errorMessages = inner.map((err) => `${err.path}: ${err.message}`);
+  return new ValidationError(errorMessages.join(', '), undefined, issues);
+}
+
+/**
+ * Converts the outcome of a Standard Schema into a Result
+ */
+function fromStandardResult<T>(result: StandardSchemaResult<T>): Result<T, ValidationError> {
+  if (!result.issues) {
+    return Result.ok<T, ValidationError>(result.value);
+  }
+
+  const issues = result.issues.map(({ message, path = [] }): ValidationIssue => ({
+    path: path.map((segment) => toPathKey(typeof segment === 'object' ? segment.key : segment)),
+    code: 'custom',
+    message,
+  }));
+  const errorMessages = issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+  return Result.fail<T, ValidationError>(
+    new ValidationError(errorMessages.join(', '), undefined, issues),
+  );
+}
+
+/**
+ * Converts a property key of a library's issue path into a key of a ValidationIssue path
+ */
+function toPathKey(key: PropertyKey): string | number {
+  return typeof key === 'symbol' ? String(key) : key;
+}
@@ -0,0 +1,151 @@
+// @ts-nocheck - Deno imports are not recognized by TypeScript
+import { assertEquals, assertThrows } from 'jsr:@std/assert';
+import { Bulkhead, RateLimiter } from './admission-control.ts';
+import { Result } from './result.ts';
+import { CancellationError, RejectedError } from './errors.ts';
+import { fakeClock } from '../tests/fake-clock.ts';
+
+/**
+ * A call that stays pending until released
+ */
+function pendingCall(): { call: () => Promise<Result<string, never>>; release: () => void } {
+  let release: () => void = () => {};
+  const done = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  return { call: () => done.then(() => Result.ok('done')), release };
+}
+
+Deno.test('Bulkhead', async (t) => {
+  await t.step('limits concurrency and queues calls in arrival order', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, maxQueue: 2 });
+    const first = pendingCall();
+    const order: string[] = [];
+
+    const running = bulkhead.run(first.call);
+    const queued = [
+      bulkhead.run(() => {
+        order.push('second');
+        return Result.ok(2);
+      }),
+      bulkhead.run(() => {
+        order.push('third');
+        return Result.ok(3);
+      }),
+    ];
+    await Promise.resolve();
+
+    assertEquals(bulkhead.running, 1);
+    assertEquals(bulkhead.queued, 2);
+
+    first.release();
+    assertEquals((await running).value, 'done');
+    assertEquals((await Promise.all(queued)).map((result) => result.value), [2, 3]);
+    assertEquals(order, ['second', 'third']);
+    assertEquals(bulkhead.running, 0);
+  });
+
+  await t.step('rejects calls when the queue is full', async () => {
+    const bulkhead = new Bulkhead({ name: 'database', maxConcurrent: 1 });
+    const first = pendingCall();
+
+    const running = bulkhead.run(first.call);
+    const rejected = await bulkhead.run(() => Result.ok(1));
+    first.release();
+    await running;
+
+    assertEquals(rejected.error instanceof RejectedError, true);
+    assertEquals(
+      rejected.error.message,
+      "Technical Error: 'database' rejected the call: bulkhead is full",
+    );
+  });
+
+  await t.step('cancels queued calls with their operation id', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, maxQueue: 1 });
+    const first = pendingCall();
+    const controller = new AbortController();
+    let called = false;
+
+    const running = bulkhead.run(first.call);
+    const queued = bulkhead.run(() => {
+      called = true;
+      return Result.ok(1);
+    }, { signal: controller.signal, operationId: 'request-1' });
+    await Promise.resolve();
+    controller.abort();
+
+    const cancelled = await queued;
+    first.release();
+    await running;
+
+    assertEquals(called, false);
+    assertEquals(cancelled.isCancelled, true);
+    assertEquals(cancelled.error instanceof CancellationError, true);
+    assertEquals(cancelled.error.operationId, 'request-1');
+    assertEquals(bulkhead.queued, 0);
+  });
+});
+
+Deno.test('RateLimiter', async (t) => {
+  await t.step('allows bursts up to the capacity', async () => {
+    const limiter = new RateLimiter({ tokensPerInterval: 2, intervalMs: 1000, clock: fakeClock() });
+
+    const results = await Promise.all([1, 2, 3].map((n) => limiter.run(() => Result.ok(n))));
+
+    assertEquals(results.map((result) => result.isSuccess), [true, true, false]);
+    assertEquals(results[2].error.message.includes('rate limit exceeded'), true);
+  });
+
+  await t.step('rejects a non-positive rate, capacity or concurrency, or a negative queue', () => {
+    assertThrows(() => new RateLimiter({ tokensPerInterval: 0, intervalMs: 1000 }), RangeError);
+    assertThrows(() => new RateLimiter({ tokensPerInterval: 1, intervalMs: -1 }), RangeError);
+    assertThrows(
+      () => new RateLimiter({ tokensPerInterval: 1, intervalMs: 1000, capacity: 0 }),
+      RangeError,
+      'capacity must be positive, got 0',
+    );
+    assertThrows(
+      () => new RateLimiter({ tokensPerInterval: 1, intervalMs: 1000, maxQueue: -1 }),
+      RangeError,
+    );
+    assertThrows(
+      () => new Bulkhead({ maxConcurrent: 0 }),
+      RangeError,
+      'maxConcurrent must be at least 1, got 0',
+    );
+    assertThrows(() => new Bulkhead({ maxQueue: -1 }), RangeError, 'maxQueue must not be negative');
+  });
+
+  await t.step('queued calls wait for refilled tokens', async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter({ tokensPerInterval: 1, intervalMs: 100, maxQueue: 5, clock });
+
+    const results = await Promise.all([1, 2, 3].map((n) => limiter.run(() => Result.ok(n))));
+
+    assertEquals(results.map((result) => result.value), [1, 2, 3]);
+    assertEquals(clock.sleeps, [100, 100]);
+  });
+
+  await t.step('cancels queued calls with their operation id', async () => {
+    const controller = new AbortController();
+    const limiter = new RateLimiter({
+      tokensPerInterval: 1,
+      intervalMs: 60_000,
+      maxQueue: 1,
+    });
+
+    await limiter.run(() => Result.ok(1));
+    const queued = limiter.run(() => Result.ok(2), {
+      signal: controller.signal,
+      operationId: 'job-7',
+    });
+    controller.abort();
+
+    // The refill timer is cleared, otherwise the test sanitizers report a leaked timer
+    const cancelled = await queued;
+    assertEquals(cancelled.isCancelled, true);
+    assertEquals(cancelled.error.operationId, 'job-7');
+    assertEquals(limiter.queued, 0);
+  });
+});
@@ -0,0 +1,385 @@
+import { AsyncResult } from './async-result.ts';
+import { type Clock, systemClock } from './clock.ts';
+import { type CancellationError, RejectedError } from './errors.ts';
+import { Result } from './result.ts';
+
+/**
+ * Options for a single call through a bulkhead or rate limiter
+ */
+export interface RunOptions {
+  /**
+   * AbortSignal cancelling the call while it waits in the queue or runs
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Identifier reported by the CancellationError when the call is cancelled
+   */
+  operationId?: string;
+}
+
+/**
+ * Calls waiting for their turn, in arrival order
+ */
+class WaitQueue {
+  private readonly _waiters: (() => void)[] = [];
+
+  public get length(): number {
+    return this._waiters.length;
+  }
+
+  /**
+   * Waits until resumed. Resolves with `false` instead if the signal is aborted first.
+   */
+  public wait(signal?: AbortSignal): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      const onAbort = (): void => {
+        this._waiters.splice(this._waiters.indexOf(resume), 1);
+        resolve(false);
+      };
+      const resume = (): void => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(true);
+      };
+
+      this._waiters.push(resume);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Resumes the longest waiting call, returning whether there was one
+   */
+  public resumeNext(): boolean {
+    const resume = this._waiters.shift();
+    resume?.();
+    return resume !== undefined;
+  }
+}
+
+/**
+ * Checks the queue size of a bulkhead or rate limiter, which may be 0 but not negative
+ */
+function checkQueueSize(maxQueue: number): void {
+  if (!(maxQueue >= 0)) {
+    throw new RangeError(`maxQueue must not be negative, got ${maxQueue}`);
+  }
+}
+
+/**
+ * Runs an admitted call with the signal's cancellation semantics, reporting cancellation with the
+ * call's operation id
+ */
+async function runAdmitted<T, E extends Error>(
+  fn: (signal: AbortSignal) => Result<T, E> | PromiseLike<Result<T, E>>,
+  { signal, operationId }: RunOptions,
+): Promise<Result<T, E | CancellationError>> {
+  const result = await Result.ok<undefined, E>(undefined)
+    .toAsync(signal)
+    .flatMap((_, stepSignal) => fn(stepSignal));
+
+  return result.isCancelled ? Result.cancelled(operationId) : result;
+}
+
+/**
+ * Options for a bulkhead
+ */
+export interface BulkheadOptions {
+  /**
+   * Name of the bulkhead, reported by RejectedError (default: `bulkhead`)
+   */
+  name?: string;
+
+  /**
+   * Maximum number of calls running at once (default: 10)
+   */
+  maxConcurrent?: number;
+
+  /**
+   * Maximum number of calls waiting for a free slot; further calls are rejected (default: 0)
+   */
+  maxQueue?: number;
+}
+
+/**
+ * Limits how many calls run at once, so one slow dependency can't use up every resource.
+ *
+ * @remarks
+ * Calls beyond `maxConcurrent` wait in a queue of at most `maxQueue` calls and start in arrival
+ * order as slots free up. When the queue is full, calls fail with a RejectedError. A call whose
+ * signal is aborted while it waits leaves the queue and produces a cancelled result.
+ *
+ * @example
+ * ```typescript
+ * const database = new Bulkhead({ name: 'database', maxConcurrent: 5, maxQueue: 50 });
+ *
+ * const rows = await database.run((signal) => query(sql, { signal }), {
+ *   signal: request.signal,
+ *   operationId: request.id,
+ * });
+ * ```
+ */
+export class Bulkhead {
+  private readonly _options: BulkheadOptions;
+  private readonly _queue = new WaitQueue();
+  private _running = 0;
+
+  /**
+   * @param options Concurrency limit and queue size of the bulkhead
+   * @throws RangeError if `maxConcurrent` is less than 1 or `maxQueue` is negative
+   */
+  constructor(options: BulkheadOptions = {}) {
+    const { maxConcurrent = 10, maxQueue = 0 } = options;
+    if (!(maxConcurrent >= 1)) {
+      throw new RangeError(`maxConcurrent must be at least 1, got ${maxConcurrent}`);
+    }
+    checkQueueSize(maxQueue);
+
+    this._options = options;
+  }
+
+  /**
+   * Number of calls currently running
+   */
+  public get running(): number {
+    return this._running;
+  }
+
+  /**
+   * Number of calls waiting for a free slot
+   */
+  public get queued(): number {
+    return this._queue.length;
+  }
+
+  /**
+   * Runs the function once a slot is free
+   *
+   * @param fn Call to run, receiving a signal aborted when the call is cancelled
+   * @param options AbortSignal and operation id for the call
+   * @returns AsyncResult of the call, a RejectedError failure when the queue is full, or a
+   * cancelled result
+   */
+  public run<T, E extends Error>(
+    fn: (signal: AbortSignal) => Result<T, E> | PromiseLike<Result<T, E>>,
+    options: RunOptions = {},
+  ): AsyncResult<T, E | RejectedError | CancellationError> {
+    return AsyncResult.from(this.execute(fn, options));
+  }
+
+  /**
+   * Waits for a slot, runs the call and hands the slot over to the next waiting call
+   */
+  private async execute<T, E extends Error>(
+    fn: (signal: AbortSignal) => Result<T, E> | PromiseLike<Result<T, E>>,
+    options: RunOptions,
+  ): Promise<Result<T, E | RejectedError | CancellationError>> {
+    const { name = 'bulkhead', maxConcurrent = 10, maxQueue = 0 } = this._options;
+
+    if (options.signal?.aborted) {
+      return Result.cancelled(options.operationId);
+    }
+
+    if (this._running < maxConcurrent) {
+      this._running++;
+    } else if (this._queue.length >= maxQueue) {
+      return Result.fail(new RejectedError(name, 'bulkhead is full'));
+    } else if (!(await this._queue.wait(options.signal))) {
+      return Result.cancelled(options.operationId);
+    }
+
+    try {
+      return await runAdmitted(fn, options);
+    } finally {
+      // A waiting call takes over the slot instead of releasing it
+      if (!this._queue.resumeNext()) {
+        this._running--;
+      }
+    }
+  }
+}
+
+/**
+ * Options for a rate limiter
+ */
+export interface RateLimiterOptions {
+  /**
+   * Name of the rate limiter, reported by RejectedError (default: `rate limiter`)
+   */
+  name?: string;
+
+  /**
+   * Number of tokens added to the bucket every `intervalMs`
+   */
+  tokensPerInterval: number;
+
+  /**
+   * Length of the refill interval in milliseconds
+   */
+  intervalMs: number;
+
+  /**
+   * Maximum number of tokens in the bucket, which is also the allowed burst size
+   * (default: `tokensPerInterval`)
+   */
+  capacity?: number;
+
+  /**
+   * Maximum number of calls waiting for a token; further calls are rejected (default: 0)
+   */
+  maxQueue?: number;
+
+  /**
+   * Clock used for refilling and waiting (default: `systemClock`)
+   */
+  clock?: Clock;
+}
+
+/**
+ * Limits the rate of calls with a token bucket.
+ *
+ * @remarks
+ * Every call takes a token from a bucket that refills at `tokensPerInterval` per `intervalMs` up to
+ * `capacity`. Without a token, calls wait in a queue of at most `maxQueue` calls and start in
+ * arrival order as tokens become available. When the queue is full, calls fail with a
+ * RejectedError. A call whose signal is aborted while it waits leaves the queue and produces a
+ * cancelled result.
+ *
+ * @example
+ * ```typescript
+ * // At most 10 calls per second, with bursts of up to 20
+ * const limiter = new RateLimiter({ tokensPerInterval: 10, intervalMs: 1000, capacity: 20 });
+ *
+ * const response = await limiter.run(() => callPartnerApi(payload));
+ * ```
+ */
+export class RateLimiter {
+  private readonly _options: RateLimiterOptions;
+  private readonly _clock: Clock;
+  private readonly _queue = new WaitQueue();
+  private _tokens: number;
+  private _refilledAt: number;
+  private _drain?: AbortController;
+
+  /**
+   * @param options Refill rate, capacity and queue size of the rate limiter
+   * @throws RangeError if `tokensPerInterval`, `intervalMs` or `capacity` is not positive, or
+   * `maxQueue` is negative
+   */
+  constructor(options: RateLimiterOptions) {
+    const { tokensPerInterval, intervalMs, capacity = tokensPerInterval, maxQueue = 0 } = options;
+    for (const [name, value] of Object.entries({ tokensPerInterval, intervalMs, capacity })) {
+      if (!(value > 0)) {
+        throw new RangeError(`${name} must be positive, got ${value}`);
+      }
+    }
+    checkQueueSize(maxQueue);
+
+    this._options = options;
+    this._clock = options.clock ?? systemClock;
+    this._tokens = this.capacity;
+    this._refilledAt = this._clock.now();
+  }
+
+  /**
+   * Number of calls waiting for a token
+   */
+  public get queued(): number {
+    return this._queue.length;
+  }
+
+  /**
+   * Runs the function once a token is available
+   *
+   * @param fn Call to run, receiving a signal aborted when the call is cancelled
+   * @param options AbortSignal and operation id for the call
+   * @returns AsyncResult of the call, a RejectedError failure when the queue is full, or a
+   * cancelled result
+   */
+  public run<T, E extends Error>(
+    fn: (signal: AbortSignal) => Result<T, E> | PromiseLike<Result<T, E>>,
+    options: RunOptions = {},
+  ): AsyncResult<T, E | RejectedError | CancellationError> {
+    return AsyncResult.from(this.execute(fn, options));
+  }
+
+  /**
+   * Maximum number of tokens in the bucket
+   */
+  private get capacity(): number {
+    return this._options.capacity ?? this._options.tokensPerInterval;
+  }
+
+  /**
+   * Takes a token (waiting for one if needed) and runs the call
+   */
+  private async execute<T, E extends Error>(
+    fn: (signal: AbortSignal) => Result<T, E> | PromiseLike<Result<T, E>>,
+    options: RunOptions,
+  ): Promise<Result<T, E | RejectedError | CancellationError>> {
+    const { name = 'rate limiter', maxQueue = 0 } = this._options;
+
+    if (options.signal?.aborted) {
+      return Result.cancelled(options.operationId);
+    }
+
+    this.refill();
+    if (this._queue.length === 0 && this._tokens >= 1) {
+      this._tokens--;
+    } else if (this._queue.length >= maxQueue) {
+      return Result.fail(new RejectedError(name, 'rate limit exceeded'));
+    } else {
+      const waiting = this._queue.wait(options.signal);
+      this.drain();
+      if (!(await waiting)) {
+        // Stop the refill timer once nobody is waiting anymore
+        if (this._queue.length === 0) {
+          this._drain?.abort();
+        }
+        return Result.cancelled(options.operationId);
+      }
+    }
+
+    return await runAdmitted(fn, options);
+  }
+
+  /**
+   * Adds the tokens accumulated since the last refill
+   */
+  private refill(): void {
+    const now = this._clock.now();
+    const { tokensPerInterval, intervalMs } = this._options;
+    this._tokens = Math.min(
+      this.capacity,
+      this._tokens + ((now - this._refilledAt) * tokensPerInterval) / intervalMs,
+    );
+    this._refilledAt = now;
+  }
+
+  /**
+   * Hands out tokens to waiting calls as they become available, until the queue is empty
+   */
+  private drain(): void {
+    if (this._drain && !this._drain.signal.aborted) {
+      return;
+    }
+
+    const drain = new AbortController();
+    this._drain = drain;
+    const { tokensPerInterval, intervalMs } = this._options;
+
+    (async (): Promise<void> => {
+      while (this._queue.length > 0 && !drain.signal.aborted) {
+        this.refill();
+        while (this._tokens >= 1 && this._queue.resumeNext()) {
+          this._tokens--;
+        }
+        if (this._queue.length > 0) {
+          const waitMs = Math.ceil(((1 - this._tokens) * intervalMs) / tokensPerInterval);
+          await this._clock.sleep(waitMs, drain.signal);
+        }
+      }
+      drain.abort();
+    })();
+  }
+}
@@ -0,0 +1,205 @@
+// @ts-nocheck - Deno imports are not recognized by TypeScript
+import { assertEquals } from 'jsr:@std/assert';
+import { AsyncResult } from './async-result.ts';
+import { Result } from './result.ts';
+import { type NotFoundError, TimeoutError, ValidationError } from './errors.ts';
+
+Deno.test('AsyncResult - Chaining', async (t) => {
+  await t.step('chains sync and async callbacks without intermediate awaits', async () => {
+    const result = await Result.fromPromise(Promise.resolve(20))
+      .map((x) => x + 1)
+      .map((x) => Promise.resolve(x * 2))
+      .flatMap((x) => Result.ok<string, Error>(`Value: ${x}`))
+      .flatMap((x) => Promise.resolve(Result.ok<string, Error>(x.toUpperCase())));
+
+    assertEquals(result.isSuccess, true);
+    assertEquals(result.value, 'VALUE: 42');
+  });
+
+  await t.step('short-circuits on failure', async () => {
+    let called = false;
+    const result = await AsyncResult.fail<number, Error>(new Error('boom'))
+      .map((x) => {
+        called = true;
+        return x * 2;
+      });
+
+    assertEquals(called, false);
+    assertEquals(result.isFailure, true);
+    assertEquals(result.error.message, 'boom');
+  });
+
+  await t.step('converts thrown errors and rejections into failures', async () => {
+    const thrown = await AsyncResult.ok<number, Error>(1).map(() => {
+      throw new Error('thrown');
+    });
+    const rejected = await AsyncResult.ok<number, Error>(1).map(() => Promise.reject('rejected'));
+
+    assertEquals(thrown.error.message, 'thrown');
+    assertEquals(rejected.error.message, 'rejected');
+  });
+
+  await t.step('mapError, recover and orElse operate on failures', async () => {
+    const mapped = await AsyncResult.fail<number, Error>(new Error('bad'))
+      .mapError((e) => Promise.resolve(new ValidationError(e.message)));
+    const recovered = await AsyncResult.fail<number, Error>(new Error('bad'))
+      .recover(() => Promise.resolve(Result.ok<number, Error>(0)));
+    const alternative = await AsyncResult.fail<number, Error>(new Error('bad'))
+      .orElse(Promise.resolve(Result.ok<number, Error>(7)));
+
+    assertEquals(mapped.error.name, 'ValidationError');
+    assertEquals(recovered.value, 0);
+    assertEquals(alternative.value, 7);
+  });
+
+  await t.step('awaits async side effects in tap and tapError', async () => {
+    const events: string[] = [];
+    await AsyncResult.ok<number, Error>(1)
+      .tap(async (x) => {
+        await Promise.resolve();
+        events.push(`tap ${x}`);
+      })
+      .map((x) => {
+        events.push(`map ${x}`);
+        return x;
+      });
+    await AsyncResult.fail<number, Error>(new Error('e')).tapError((e) => {
+      events.push(`tapError ${e.message}`);
+    });
+
+    assertEquals(events, ['tap 1', 'map 1', 'tapError e']);
+  });
+
+  await t.step('match, getOrElse and getOrCall resolve to plain values', async () => {
+    const success = AsyncResult.ok<number, Error>(42);
+    const failure = AsyncResult.fail<number, Error>(new Error('Error message'));
+
+    assertEquals(await success.match((v) => `ok ${v}`, (e) => `fail ${e.message}`), 'ok 42');
+    assertEquals(
+      await failure.match((v) => `ok ${v}`, (e) => Promise.resolve(`fail ${e.message}`)),
+      'fail Error message',
+    );
+    assertEquals(await failure.getOrElse(0), 0);
+    assertEquals(await failure.getOrCall((e) => e.message.length), 13);
+  });
+});
+
+Deno.test('AsyncResult - Matching on error classes', async (t) => {
+  await t.step('recoverWhen and matchError work on pending results', async () => {
+    const failure = AsyncResult.fail<number, NotFoundError | ValidationError>(
+      new ValidationError('Bad input'),
+    );
+
+    const recovered = await failure.recoverWhen(
+      ValidationError,
+      () => Promise.resolve(Result.ok(1)),
+    );
+    const status = await failure.matchError(() => 200, {
+      NotFoundError: () => 404,
+      ValidationError: () => Promise.resolve(400),
+    });
+
+    assertEquals(recovered.value, 1);
+    assertEquals(status, 400);
+  });
+});
+
+Deno.test('AsyncResult - Timeouts', async (t) => {
+  await t.step('fails a slow step with a TimeoutError', async () => {
+    const result = await AsyncResult.ok<number, Error>(1).map(
+      (x, signal) =>
+        new Promise<number>((resolve) => signal.addEventListener('abort', () => resolve(x))),
+      { timeoutMs: 5, operation: 'slowStep' },
+    );
+
+    assertEquals(result.error instanceof TimeoutError, true);
+    assertEquals(result.error.message.includes("'slowStep' timed out after 5ms"), true);
+  });
+
+  await t.step('uses the given clock for the timer', async () => {
+    const clock = { now: () => 0, sleep: () => Promise.resolve() };
+    const result = await Result.ok<number, Error>(1).asyncFlatMap(
+      () => new Promise<Result<number, Error>>(() => {}),
+      undefined,
+      { timeoutMs: 60_000, clock },
+    );
+
+    assertEquals(result.error.name, 'TimeoutError');
+  });
+
+  await t.step('keeps fast steps unchanged', async () => {
+    const result = await Result.ok<number, Error>(20).asyncMap(
+      (x) => Promise.resolve(x + 1),
+      undefined,
+      {
+        timeoutMs: 10_000,
+      },
+    );
+
+    assertEquals(result.value, 21);
+  });
+});
+
+Deno.test('AsyncResult - Cancellation', async (t) => {
+  await t.step('does not run steps once the signal is aborted', async () => {
+    const controller = new AbortController();
+    let called = false;
+
+    const result = await Result.fromPromise(Promise.resolve(1), controller.signal)
+      .tap(() => controller.abort())
+      .map(() => {
+        called = true;
+      });
+
+    assertEquals(called, false);
+    assertEquals(result.isCancelled, true);
+  });
+
+  await t.step('cancels a pending async step when the signal is aborted', async () => {
+    const controller = new AbortController();
+    let release: () => void = () => {};
+    const pending = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    const result = Result.fromPromise(Promise.resolve(1), controller.signal)
+      .map(async (x) => {
+        controller.abort();
+        await pending;
+        return x;
+      });
+
+    const cancelled = await result;
+    release();
+
+    assertEquals(cancelled.isCancelled, true);
+  });
+
+  await t.step('aborts the signal passed to a pending step', async () => {
+    const controller = new AbortController();
+    let stepSignal: AbortSignal | undefined;
+
+    const result = await Result.fromPromise(Promise.resolve(1), controller.signal)
+      .flatMap((x, signal) => {
+        stepSignal = signal;
+        controller.abort();
+        return Result.ok(x);
+      });
+
+    assertEquals(result.isCancelled, true);
+    assertEquals(stepSignal?.aborted, true);
+  });
+
+  await t.step('preserves failures that happened before the abort', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await Result.fail<number, Error>(new Error('first')).asyncMap(
+      (x) => x * 2,
+      controller.signal,
+    );
+
+    assertEquals(result.isCancelled, false);
+    assertEquals(result.error.message, 'first');
+  });
+});
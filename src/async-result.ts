@@ -0,0 +1,425 @@
+import { type InferError, Result } from './result.ts';
+import { type ErrorClass, type ErrorHandlers, findErrorHandler } from './error-match.ts';
+import { type Clock, systemClock } from './clock.ts';
+import { TimeoutError } from './errors.ts';
+
+/**
+ * Options for limiting how long a single step may run
+ */
+export interface TimeoutOptions {
+  /**
+   * Time limit in milliseconds
+   */
+  timeoutMs: number;
+
+  /**
+   * Name of the operation reported by the TimeoutError (default: `operation`)
+   */
+  operation?: string;
+
+  /**
+   * Clock used for the timer (default: `systemClock`)
+   */
+  clock?: Clock;
+}
+
+/**
+ * The error a step can additionally fail with when it is given timeout options
+ */
+export type TimeoutErrorOf<O> = O extends TimeoutOptions ? TimeoutError : never;
+
+/**
+ * Normalizes an unknown thrown value into an Error instance
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error
+    ? error
+    : new Error(typeof error === 'string' ? error : String(error));
+}
+
+/**
+ * Re-types a failed result for a different success type, keeping its cancellation state
+ */
+function propagate<U, E extends Error>(failure: Result<unknown, E>): Result<U, E> {
+  return failure as unknown as Result<U, E>;
+}
+
+/**
+ * Races a value or promise against an AbortSignal, rejecting as soon as the signal is aborted.
+ * The abort listener is removed once the race settles so long chains don't leak listeners.
+ */
+function raceAbort<U>(value: U | PromiseLike<U>, abortSignal?: AbortSignal): Promise<U> {
+  if (!abortSignal) {
+    return Promise.resolve(value);
+  }
+
+  return new Promise<U>((resolve, reject) => {
+    const onAbort = (): void => reject(new Error('Operation aborted'));
+
+    // The signal may have been aborted while the value was being produced
+    if (abortSignal.aborted) {
+      onAbort();
+      return;
+    }
+    abortSignal.addEventListener('abort', onAbort, { once: true });
+
+    Promise.resolve(value).then(
+      (settled) => {
+        abortSignal.removeEventListener('abort', onAbort);
+        resolve(settled);
+      },
+      (error: unknown) => {
+        abortSignal.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
+/**
+ * Races a value or promise against a time limit, rejecting with a TimeoutError and aborting the
+ * step's controller when it is exceeded. The timer is cleared as soon as the race settles or the
+ * controller is aborted, so no timers are left behind.
+ */
+function raceTimeout<U>(
+  value: U | PromiseLike<U>,
+  timeout: TimeoutOptions | undefined,
+  controller: AbortController,
+): Promise<U> {
+  if (!timeout) {
+    return Promise.resolve(value);
+  }
+
+  const { timeoutMs, operation = 'operation', clock = systemClock } = timeout;
+  const timer = new AbortController();
+  controller.signal.addEventListener('abort', () => timer.abort(), { once: true });
+
+  return new Promise<U>((resolve, reject) => {
+    clock.sleep(timeoutMs, timer.signal).then(() => {
+      if (!timer.signal.aborted) {
+        const error = new TimeoutError(operation, timeoutMs);
+        controller.abort(error);
+        reject(error);
+      }
+    });
+
+    Promise.resolve(value).then(resolve, reject).finally(() => timer.abort());
+  });
+}
+
+/**
+ * An asynchronous result that can be chained like a `Result` without awaiting every step.
+ *
+ * @remarks
+ * `AsyncResult` is `PromiseLike`, so it can be awaited at any point to get the underlying
+ * `Result`. Every callback may be synchronous or return a Promise. It never rejects: thrown
+ * errors and rejected promises become failures. When created with an AbortSignal, the signal is
+ * carried through the whole chain and any step that runs after it is aborted (or is still pending
+ * when it is aborted) produces a cancelled result. `map` and `flatMap` callbacks receive an
+ * AbortSignal for the step, which is aborted when the chain is cancelled or the step's timeout is
+ * exceeded.
+ *
+ * @example
+ * ```typescript
+ * const result = await Result.fromPromise(fetchUser(id), controller.signal)
+ *   .map((user) => user.profile)
+ *   .flatMap(async (profile) => validateProfile(profile))
+ *   .tapError((error) => logger.warn(error.message));
+ * ```
+ */
+export class AsyncResult<out T, out E extends Error> implements PromiseLike<Result<T, E>> {
+  private readonly _promise: Promise<Result<T, E>>;
+  private readonly _abortSignal?: AbortSignal;
+
+  private constructor(promise: PromiseLike<Result<T, E>>, abortSignal?: AbortSignal) {
+    this._promise = Promise.resolve(promise).then(
+      (result) => result,
+      (error: unknown) => Result.fail<T, E>(toError(error) as E),
+    );
+    this._abortSignal = abortSignal;
+
+    // Freeze the object to prevent modification
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates an AsyncResult from a Result or a promise of a Result
+   *
+   * @param result The Result (or promise of a Result) to wrap
+   * @param abortSignal Optional AbortSignal carried through the chain
+   */
+  public static from<U, E extends Error>(
+    result: Result<U, E> | PromiseLike<Result<U, E>>,
+    abortSignal?: AbortSignal,
+  ): AsyncResult<U, E> {
+    return new AsyncResult<U, E>(Promise.resolve(result), abortSignal);
+  }
+
+  /**
+   * Creates a successful AsyncResult with the given value
+   */
+  public static ok<U, E extends Error = never>(value?: U): AsyncResult<U, E> {
+    return AsyncResult.from(Result.ok<U, E>(value));
+  }
+
+  /**
+   * Creates a failed AsyncResult with the given error
+   */
+  public static fail<U = never, E extends Error = Error>(error: E): AsyncResult<U, E> {
+    return AsyncResult.from(Result.fail<U, E>(error));
+  }
+
+  /**
+   * Create an AsyncResult from a Promise with cancellation support
+   *
+   * @param promise The promise to convert
+   * @param abortSignal Optional AbortSignal to support cancellation
+   */
+  public static fromPromise<U>(
+    promise: PromiseLike<U>,
+    abortSignal?: AbortSignal,
+  ): AsyncResult<U, Error> {
+    const settled = (async (): Promise<Result<U, Error>> => {
+      // If already aborted, return a cancelled result
+      if (abortSignal?.aborted) {
+        return Result.cancelled<U, Error>('Operation was aborted');
+      }
+
+      try {
+        return Result.ok<U, Error>(await raceAbort(promise, abortSignal));
+      } catch (error: unknown) {
+        if (abortSignal?.aborted) {
+          return Result.cancelled<U, Error>('Operation was aborted');
+        }
+        return Result.fail<U, Error>(toError(error));
+      }
+    })();
+
+    return new AsyncResult<U, Error>(settled, abortSignal);
+  }
+
+  /**
+   * Maps the value if successful. The mapping function may be async.
+   * With timeout options, the step fails with a TimeoutError when it takes too long.
+   *
+   * @example
+   * ```typescript
+   * const enriched = await result.map(
+   *   (user, signal) => fetchOrders(user.id, { signal }),
+   *   { timeoutMs: 2000, operation: 'fetchOrders' },
+   * );
+   * ```
+   */
+  public map<U, O extends TimeoutOptions | undefined = undefined>(
+    f: (value: T, signal: AbortSignal) => U | PromiseLike<U>,
+    timeout?: O,
+  ): AsyncResult<U, E | TimeoutErrorOf<O>> {
+    return this.chain<U, E | TimeoutErrorOf<O>>((result) => {
+      if (result.isFailure) {
+        return propagate<U, E>(result);
+      }
+      return this.guard(
+        async (signal) => Result.ok<U, E>(await f(result.value, signal)),
+        timeout,
+      );
+    });
+  }
+
+  /**
+   * Maps the error if failed. The mapping function may be async.
+   */
+  public mapError<U extends Error>(f: (error: E) => U | PromiseLike<U>): AsyncResult<T, U> {
+    return this.chain((result) => {
+      if (result.isSuccess) {
+        return Result.ok<T, U>(result.value);
+      }
+      return this.guard(async () => Result.fail<T, U>(await f(result.error)));
+    });
+  }
+
+  /**
+   * Chains a function returning a Result (or a promise of one) if successful.
+   * The error type widens to include the continuation's errors.
+   * With timeout options, the step fails with a TimeoutError when it takes too long.
+   */
+  public flatMap<U, E2 extends Error = E, O extends TimeoutOptions | undefined = undefined>(
+    f: (value: T, signal: AbortSignal) => Result<U, E2> | PromiseLike<Result<U, E2>>,
+    timeout?: O,
+  ): AsyncResult<U, E | E2 | TimeoutErrorOf<O>> {
+    return this.chain<U, E | E2 | TimeoutErrorOf<O>>((result) => {
+      if (result.isFailure) {
+        return propagate<U, E>(result);
+      }
+      return this.guard<U, E | E2>((signal) => f(result.value, signal), timeout);
+    });
+  }
+
+  /**
+   * Execute a side effect if successful. Async side effects are awaited before continuing.
+   */
+  public tap(f: (value: T) => unknown): AsyncResult<T, E> {
+    return this.chain((result) => {
+      if (result.isFailure) {
+        return result;
+      }
+      return this.guard(async () => {
+        await f(result.value);
+        return result;
+      });
+    });
+  }
+
+  /**
+   * Execute a side effect if failed. Async side effects are awaited before continuing.
+   */
+  public tapError(f: (error: E) => unknown): AsyncResult<T, E> {
+    return this.chain((result) => {
+      if (result.isSuccess) {
+        return result;
+      }
+      return this.guard(async () => {
+        await f(result.error);
+        return result;
+      });
+    });
+  }
+
+  /**
+   * Try to recover from an error by applying a function that returns a new Result.
+   * The original error is handled, so the error type becomes the recovery's error type.
+   */
+  public recover<E2 extends Error = E>(
+    f: (error: E) => Result<T, E2> | PromiseLike<Result<T, E2>>,
+  ): AsyncResult<T, E2> {
+    return this.chain<T, E2>((result) => {
+      if (result.isSuccess) {
+        return result as unknown as Result<T, E2>;
+      }
+      return this.guard(() => f(result.error));
+    });
+  }
+
+  /**
+   * Recover only from errors of the given class (including its subclasses)
+   */
+  public recoverWhen<C extends ErrorClass, E2 extends Error = never>(
+    errorClass: C,
+    f: (error: InstanceType<C>) => Result<T, E2> | PromiseLike<Result<T, E2>>,
+  ): AsyncResult<T, Exclude<E, InstanceType<C>> | E2> {
+    return this.chain<T, Exclude<E, InstanceType<C>> | E2>((result) => {
+      if (result.isSuccess || !(result.error instanceof errorClass)) {
+        return result as unknown as Result<T, Exclude<E, InstanceType<C>>>;
+      }
+      return this.guard(() => f(result.error as InstanceType<C>));
+    });
+  }
+
+  /**
+   * Return an alternative result if this result is a failure
+   */
+  public orElse(alternative: Result<T, E> | PromiseLike<Result<T, E>>): AsyncResult<T, E> {
+    return this.chain((result) => (result.isSuccess ? result : alternative));
+  }
+
+  /**
+   * Match on the settled result and return a value based on success or failure
+   */
+  public async match<U>(
+    onSuccess: (value: T) => U | PromiseLike<U>,
+    onFailure: (error: E) => U | PromiseLike<U>,
+  ): Promise<U> {
+    const result = await this._promise;
+    return result.isSuccess ? await onSuccess(result.value) : await onFailure(result.error);
+  }
+
+  /**
+   * Match on the settled result with a separate handler for each error in the error union
+   */
+  public async matchError<U, R extends AsyncResult<T, Error>>(
+    this: R,
+    onSuccess: (value: T) => U | PromiseLike<U>,
+    handlers: ErrorHandlers<InferError<Awaited<R>>, U | PromiseLike<U>>,
+  ): Promise<U> {
+    const result = await this;
+    if (result.isSuccess) {
+      return await onSuccess(result.value);
+    }
+    const error = result.error as InferError<Awaited<R>>;
+    return await findErrorHandler(error, handlers)(error);
+  }
+
+  /**
+   * Resolve to the value, or to the given default value if the result is a failure
+   */
+  public async getOrElse(defaultValue: T): Promise<T> {
+    return (await this._promise).getOrElse(defaultValue);
+  }
+
+  /**
+   * Resolve to the value, or to a value computed from the error if the result is a failure
+   */
+  public async getOrCall(f: (error: E) => T | PromiseLike<T>): Promise<T> {
+    const result = await this._promise;
+    return result.isSuccess ? result.value : await f(result.error);
+  }
+
+  /**
+   * Convert to a Promise that resolves with the value or rejects with the error
+   */
+  public async toPromise(): Promise<T> {
+    return (await this._promise).toPromise();
+  }
+
+  /**
+   * Makes the async result usable with `yield*` inside `Result.genAsync`
+   */
+  public async *[Symbol.asyncIterator](): AsyncGenerator<Result<never, E>, T, unknown> {
+    return yield* await this._promise;
+  }
+
+  /**
+   * Attaches callbacks for the settled Result, making AsyncResult awaitable
+   */
+  public then<R1 = Result<T, E>, R2 = never>(
+    onfulfilled?: ((result: Result<T, E>) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null,
+  ): Promise<R1 | R2> {
+    return this._promise.then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Derives a new AsyncResult from the settled Result, keeping the AbortSignal
+   */
+  private chain<U, E2 extends Error>(
+    f: (result: Result<T, E>) => Result<U, E2> | PromiseLike<Result<U, E2>>,
+  ): AsyncResult<U, E2> {
+    return new AsyncResult<U, E2>(this._promise.then(f), this._abortSignal);
+  }
+
+  /**
+   * Runs a user callback with the chain's cancellation semantics: nothing runs once the signal
+   * is aborted, pending async work is abandoned when it is aborted or times out, and throws become
+   * failures. The callback receives a signal that is aborted whenever its work is abandoned.
+   */
+  private async guard<U, E2 extends Error>(
+    run: (signal: AbortSignal) => Result<U, E2> | PromiseLike<Result<U, E2>>,
+    timeout?: TimeoutOptions,
+  ): Promise<Result<U, E2>> {
+    const abortSignal = this._abortSignal;
+
+    if (abortSignal?.aborted) {
+      return Result.cancelled<U, E2>('Operation was aborted');
+    }
+
+    const controller = new AbortController();
+    try {
+      return await raceAbort(raceTimeout(run(controller.signal), timeout, controller), abortSignal);
+    } catch (error: unknown) {
+      controller.abort();
+      if (abortSignal?.aborted) {
+        return Result.cancelled<U, E2>('Operation was aborted');
+      }
+      return Result.fail<U, E2>(toError(error) as E2);
+    }
+  }
+}
@@ -0,0 +1,365 @@
+import type { JsonSchema } from './json-schema.ts';
+import type { UnrenderedIssue } from './messages.ts';
+
+/**
+ * A validation rule bound to its parameters, shared by `Validator` and the schema builder
+ */
+export interface Check {
+  /**
+   * Stable identifier of the rule, reported as the issue `code`
+   */
+  readonly code: string;
+
+  /**
+   * Message template replacing the catalog message of the rule's code
+   */
+  readonly message?: string;
+
+  /**
+   * Parameters of the rule, reported as the issue `params`
+   */
+  readonly params?: Record<string, unknown>;
+
+  /**
+   * JSON Schema keywords expressing the rule, for rules that have an equivalent
+   */
+  readonly jsonSchema?: JsonSchema;
+
+  /**
+   * Whether the value passes the rule. Values of a type the rule doesn't apply to pass, so that
+   * type mismatches are reported only once by the type rules.
+   */
+  test(value: unknown): boolean;
+}
+
+const EMAIL_PATTERN = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const IPV4_PATTERN = /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/;
+const IPV6_CHARACTERS = /^[0-9a-f:.]+$/i;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * Whether a string is an IPv6 address, as accepted by the URL parser
+ */
+function isIPv6(value: string): boolean {
+  // Only address characters, so the value can't close the brackets and smuggle in a URL
+  if (!value.includes(':') || !IPV6_CHARACTERS.test(value)) {
+    return false;
+  }
+  try {
+    return new URL(`http://[${value}]`).hostname !== '';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a string is an ISO 8601 date or date-time of an existing calendar day
+ */
+function isIsoDate(value: string): boolean {
+  if (!ISO_DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    return false;
+  }
+  // `Date.parse` rolls days over, turning February 30 into March 1
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day;
+}
+
+/**
+ * Whether a string is an absolute http or https URL
+ */
+function isUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a string is valid JSON
+ */
+function isJson(value: string): boolean {
+  try {
+    JSON.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The built-in rules, keyed by their code
+ */
+export const checks = Object.freeze({
+  required: (): Check => ({
+    code: 'required',
+    test: (value) => value !== null && value !== undefined,
+  }),
+  notEmpty: (): Check => ({
+    code: 'notEmpty',
+    test: (value) => typeof value !== 'string' || value.trim() !== '',
+  }),
+  maxLength: (length: number): Check => ({
+    code: 'maxLength',
+    params: { length },
+    jsonSchema: { maxLength: length },
+    test: (value) => typeof value !== 'string' || value.length <= length,
+  }),
+  minLength: (length: number): Check => ({
+    code: 'minLength',
+    params: { length },
+    jsonSchema: { minLength: length },
+    test: (value) => typeof value !== 'string' || value.length >= length,
+  }),
+  isString: (): Check => ({
+    code: 'isString',
+    jsonSchema: { type: 'string' },
+    test: (value) => typeof value === 'string',
+  }),
+  isNumber: (): Check => ({
+    code: 'isNumber',
+    jsonSchema: { type: 'number' },
+    test: (value) => typeof value === 'number' && !Number.isNaN(value),
+  }),
+  isInteger: (): Check => ({
+    code: 'isInteger',
+    jsonSchema: { type: 'integer' },
+    test: (value) => Number.isInteger(value),
+  }),
+  isBoolean: (): Check => ({
+    code: 'isBoolean',
+    jsonSchema: { type: 'boolean' },
+    test: (value) => typeof value === 'boolean',
+  }),
+  isDate: (): Check => ({
+    code: 'isDate',
+    test: (value) => value instanceof Date && !Number.isNaN(value.getTime()),
+  }),
+  isObject: (): Check => ({
+    code: 'isObject',
+    jsonSchema: { type: 'object' },
+    test: (value) => typeof value === 'object' && value !== null && !Array.isArray(value),
+  }),
+  isArray: (): Check => ({
+    code: 'isArray',
+    jsonSchema: { type: 'array' },
+    test: (value) => Array.isArray(value),
+  }),
+  min: (min: number): Check => ({
+    code: 'min',
+    params: { min },
+    jsonSchema: { minimum: min },
+    test: (value) => typeof value !== 'number' || value >= min,
+  }),
+  max: (max: number): Check => ({
+    code: 'max',
+    params: { max },
+    jsonSchema: { maximum: max },
+    test: (value) => typeof value !== 'number' || value <= max,
+  }),
+  minItems: (count: number): Check => ({
+    code: 'minItems',
+    params: { count },
+    jsonSchema: { minItems: count },
+    test: (value) => !Array.isArray(value) || value.length >= count,
+  }),
+  maxItems: (count: number): Check => ({
+    code: 'maxItems',
+    params: { count },
+    jsonSchema: { maxItems: count },
+    test: (value) => !Array.isArray(value) || value.length <= count,
+  }),
+  length: (length: number): Check => ({
+    code: 'length',
+    params: { length },
+    jsonSchema: { minLength: length, maxLength: length },
+    test: (value) =>
+      !(typeof value === 'string' || Array.isArray(value)) || value.length === length,
+  }),
+  email: (): Check => ({
+    code: 'email',
+    jsonSchema: { format: 'email' },
+    test: (value) => typeof value !== 'string' || EMAIL_PATTERN.test(value),
+  }),
+  matches: (pattern: RegExp): Check => ({
+    code: 'matches',
+    params: { pattern: pattern.source },
+    // JSON Schema patterns have no flags
+    ...(pattern.flags === '' && { jsonSchema: { pattern: pattern.source } }),
+    test: (value) => typeof value !== 'string' || pattern.test(value),
+  }),
+  oneOf: (allowed: readonly unknown[]): Check => ({
+    code: 'oneOf',
+    params: { allowed },
+    jsonSchema: { enum: [...allowed] },
+    test: (value) => allowed.includes(value),
+  }),
+  literal: (expected: unknown): Check => ({
+    code: 'literal',
+    params: { expected },
+    test: (value) => value === expected,
+  }),
+  union: (): Check => ({
+    code: 'union',
+    test: () => false,
+  }),
+  positive: (): Check => ({
+    code: 'positive',
+    jsonSchema: { exclusiveMinimum: 0 },
+    test: (value) => typeof value !== 'number' || value > 0,
+  }),
+  negative: (): Check => ({
+    code: 'negative',
+    jsonSchema: { exclusiveMaximum: 0 },
+    test: (value) => typeof value !== 'number' || value < 0,
+  }),
+  multipleOf: (step: number): Check => ({
+    code: 'multipleOf',
+    params: { step },
+    jsonSchema: { multipleOf: step },
+    // Compares with a tolerance, so that 0.3 is a multiple of 0.1
+    test: (value) =>
+      typeof value !== 'number' || Math.abs(value / step - Math.round(value / step)) < 1e-9,
+  }),
+  startsWith: (prefix: string): Check => ({
+    code: 'startsWith',
+    params: { prefix },
+    test: (value) => typeof value !== 'string' || value.startsWith(prefix),
+  }),
+  endsWith: (suffix: string): Check => ({
+    code: 'endsWith',
+    params: { suffix },
+    test: (value) => typeof value !== 'string' || value.endsWith(suffix),
+  }),
+  url: (): Check => ({
+    code: 'url',
+    jsonSchema: { format: 'uri' },
+    test: (value) => typeof value !== 'string' || isUrl(value),
+  }),
+  uuid: (): Check => ({
+    code: 'uuid',
+    jsonSchema: { format: 'uuid' },
+    test: (value) => typeof value !== 'string' || UUID_PATTERN.test(value),
+  }),
+  ip: (version?: 4 | 6): Check => ({
+    code: 'ip',
+    ...(version && { params: { version }, jsonSchema: { format: `ipv${version}` } }),
+    test: (value) =>
+      typeof value !== 'string' ||
+      (version !== 6 && IPV4_PATTERN.test(value)) ||
+      (version !== 4 && isIPv6(value)),
+  }),
+  isoDate: (): Check => ({
+    code: 'isoDate',
+    test: (value) => typeof value !== 'string' || isIsoDate(value),
+  }),
+  json: (): Check => ({
+    code: 'json',
+    test: (value) => typeof value !== 'string' || isJson(value),
+  }),
+  before: (date: Date): Check => ({
+    code: 'before',
+    params: { date: date.toISOString() },
+    test: (value) => !(value instanceof Date) || value < date,
+  }),
+  after: (date: Date): Check => ({
+    code: 'after',
+    params: { date: date.toISOString() },
+    test: (value) => !(value instanceof Date) || value > date,
+  }),
+  unique: <T>(by?: (item: T) => unknown): Check => ({
+    code: 'unique',
+    ...(by === undefined && { jsonSchema: { uniqueItems: true } }),
+    test: (value) =>
+      !Array.isArray(value) || new Set(by ? value.map(by) : value).size === value.length,
+  }),
+  custom: <T>(predicate: (value: T) => boolean, message?: string): Check => ({
+    code: 'custom',
+    ...(message !== undefined && { message }),
+    test: (value) => predicate(value as T),
+  }),
+});
+
+/**
+ * Creates the issue for a failed check at the given path
+ *
+ * @param check - The failed check
+ * @param path - The path of the offending value
+ * @param message - A message template replacing the catalog message
+ */
+export function toIssue(
+  check: Check,
+  path: (string | number)[],
+  message = check.message,
+): UnrenderedIssue {
+  return {
+    path,
+    code: check.code,
+    ...(message !== undefined && { message }),
+    ...(check.params && { params: check.params }),
+  };
+}
+
+/**
+ * The dialect of the JSON Schema documents describing schemas and validation rules
+ */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Adds the JSON Schema keywords of a check to the description of a value.
+ *
+ * @param description - The JSON Schema describing the value, updated in place
+ * @param check - The check applied to the value
+ */
+export function describeCheck(description: JsonSchema, check: Check): void {
+  if (!check.jsonSchema) {
+    return;
+  }
+
+  // Type rules such as `int()` narrow the type, while keywords set twice, such as the patterns of
+  // two `matches` rules, must all hold
+  const { type, ...checkKeywords } = check.jsonSchema;
+  if (type !== undefined && !(type === 'number' && description.type === 'integer')) {
+    description.type = type;
+  }
+  const keywords = lengthsForType(checkKeywords, check, description.type);
+  if (Object.keys(keywords).some((keyword) => Object.hasOwn(description, keyword))) {
+    description.allOf = [...description.allOf ?? [], keywords];
+  } else {
+    Object.assign(description, keywords);
+  }
+}
+
+/**
+ * The keywords counting the items of an array, by the keywords counting the characters of a string
+ */
+const ITEM_COUNT_KEYWORDS: Record<string, string> = {
+  minLength: 'minItems',
+  maxLength: 'maxItems',
+};
+
+/**
+ * Adapts the length keywords of a check to the type of the described value. JSON Schema ignores
+ * `minLength` on arrays, so the `length` rule, which also applies to arrays, counts their items
+ * with `minItems`, while the string-only rules are left out. Lengths of a value of unknown type
+ * are left out as well.
+ */
+function lengthsForType(keywords: JsonSchema, check: Check, type: JsonSchema['type']): JsonSchema {
+  if (type === 'string') {
+    return keywords;
+  }
+  return Object.fromEntries(
+    Object.entries(keywords).flatMap(([keyword, value]) => {
+      if (!Object.hasOwn(ITEM_COUNT_KEYWORDS, keyword)) {
+        return [[keyword, value]];
+      }
+      return type === 'array' && check.code === 'length'
+        ? [[ITEM_COUNT_KEYWORDS[keyword], value]]
+        : [];
+    }),
+  );
+}
@@ -0,0 +1,184 @@
+// @ts-nocheck - Deno imports are not recognized by TypeScript
+import { assertEquals } from 'jsr:@std/assert';
+import { CircuitBreaker } from './circuit-breaker.ts';
+import { Result } from './result.ts';
+import { CircuitOpenError, TechnicalError, ValidationError } from './errors.ts';
+
+/**
+ * A clock that only moves when told to
+ */
+function manualClock(): {
+  now: () => number;
+  sleep: () => Promise<void>;
+  advance: (ms: number) => void;
+} {
+  let time = 0;
+  return {
+    now: () => time,
+    sleep: () => Promise.resolve(),
+    advance: (ms) => {
+      time += ms;
+    },
+  };
+}
+
+const down = (): Result<never, TechnicalError> => Result.fail(new TechnicalError('down'));
+const up = (): Result<string, never> => Result.ok('up');
+
+Deno.test('CircuitBreaker - States', async (t) => {
+  await t.step('opens after consecutive failures and fails fast', async () => {
+    const clock = manualClock();
+    const breaker = new CircuitBreaker({
+      name: 'payments',
+      failureThreshold: 2,
+      coolDownMs: 100,
+      clock,
+    });
+    let calls = 0;
+    const call = (): Result<never, TechnicalError> => {
+      calls++;
+      return down();
+    };
+
+    await breaker.call(call);
+    await breaker.call(call);
+    clock.advance(40);
+    const rejected = await breaker.call(call);
+
+    assertEquals(breaker.state, 'open');
+    assertEquals(calls, 2);
+    assertEquals(rejected.error instanceof CircuitOpenError, true);
+    assertEquals(
+      rejected.error.message,
+      "Technical Error: Circuit 'payments' is open, retry after 60ms",
+    );
+    assertEquals(rejected.error.retryAfterMs, 60);
+  });
+
+  await t.step('successes reset the consecutive failure count', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, clock: manualClock() });
+
+    await breaker.call(down);
+    await breaker.call(up);
+    await breaker.call(down);
+
+    assertEquals(breaker.state, 'closed');
+  });
+
+  await t.step('opens when the failure rate is exceeded', async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 100,
+      failureRateThreshold: 0.5,
+      windowSize: 4,
+      clock: manualClock(),
+    });
+
+    for (const call of [up, down, up]) {
+      await breaker.call(call);
+    }
+    assertEquals(breaker.state, 'closed');
+
+    await breaker.call(down);
+    assertEquals(breaker.state, 'open');
+  });
+
+  await t.step('does not count domain errors and cancellations', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, clock: manualClock() });
+
+    await breaker.call(() => Result.fail(new ValidationError('Bad input')));
+    await breaker.call(() => Result.cancelled('op'));
+
+    assertEquals(breaker.state, 'closed');
+  });
+
+  await t.step('gives the slot of a cancelled trial to the next call', async () => {
+    const clock = manualClock();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, coolDownMs: 100, clock });
+
+    await breaker.call(down);
+    clock.advance(100);
+    await breaker.call(() => Result.cancelled('op'));
+    const result = await breaker.call(() => Result.ok('up'));
+
+    assertEquals(result.value, 'up');
+    assertEquals(breaker.state, 'closed');
+  });
+
+  await t.step('ignores late outcomes of calls admitted before the circuit recovered', async () => {
+    const clock = manualClock();
+    const breaker = new CircuitBreaker({ failureThreshold: 2, coolDownMs: 100, clock });
+    let fail: () => void = () => {};
+    const slow = breaker.call(() =>
+      new Promise<Result<never, TechnicalError>>((resolve) => {
+        fail = () => resolve(Result.fail(new TechnicalError('late')));
+      })
+    );
+
+    await breaker.call(down);
+    await breaker.call(down);
+    clock.advance(100);
+    await breaker.call(up);
+    fail();
+    await slow;
+    await breaker.call(down);
+
+    // Counting the late failure would make two consecutive failures in the closed circuit
+    assertEquals(breaker.state, 'closed');
+  });
+
+  await t.step('counts thrown errors as failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, clock: manualClock() });
+
+    const result = await breaker.call(() => Promise.reject(new TypeError('fetch failed')));
+
+    assertEquals(result.error.message, 'fetch failed');
+    assertEquals(breaker.state, 'open');
+  });
+
+  await t.step('half-opens after the cool-down and closes after successful trials', async () => {
+    const clock = manualClock();
+    const transitions: string[] = [];
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      coolDownMs: 100,
+      halfOpenMaxCalls: 2,
+      clock,
+      onStateChange: (to, from) => transitions.push(`${from} -> ${to}`),
+    });
+
+    await breaker.call(down);
+    clock.advance(100);
+    assertEquals(breaker.state, 'half-open');
+
+    const first = breaker.call(up);
+    const second = breaker.call(up);
+    const third = await breaker.call(up);
+    await Promise.all([first, second]);
+
+    assertEquals(third.error instanceof CircuitOpenError, true);
+    assertEquals(breaker.state, 'closed');
+    assertEquals(transitions, ['closed -> open', 'open -> half-open', 'half-open -> closed']);
+  });
+
+  await t.step('re-opens when a trial call fails', async () => {
+    const clock = manualClock();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, coolDownMs: 100, clock });
+
+    await breaker.call(down);
+    clock.advance(100);
+    await breaker.call(down);
+
+    assertEquals(breaker.state, 'open');
+    assertEquals((await breaker.call(up)).error.retryAfterMs, 100);
+  });
+
+  await t.step('reset closes the circuit', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, clock: manualClock() });
+
+    await breaker.call(down);
+    breaker.reset();
+
+    assertEquals(breaker.state, 'closed');
+    assertEquals((await breaker.call(up)).value, 'up');
+  });
+});
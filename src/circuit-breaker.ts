@@ -0,0 +1,254 @@
+import { AsyncResult } from './async-result.ts';
+import { type Clock, systemClock } from './clock.ts';
+import { CancellationError, CircuitOpenError, ResultError } from './errors.ts';
+import { isRetryableError } from './retry.ts';
+import type { Result } from './result.ts';
+
+/**
+ * State of a circuit breaker:
+ * - `closed`: calls go through and failures are counted
+ * - `open`: calls fail fast with a CircuitOpenError until the cool-down has passed
+ * - `half-open`: a limited number of trial calls decide whether to close or re-open the circuit
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options for a circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Name of the circuit, reported by CircuitOpenError (default: `circuit`)
+   */
+  name?: string;
+
+  /**
+   * Number of consecutive failures that opens the circuit (default: 5)
+   */
+  failureThreshold?: number;
+
+  /**
+   * Failure rate between 0 and 1 over the last `windowSize` calls that opens the circuit
+   * (default: disabled)
+   */
+  failureRateThreshold?: number;
+
+  /**
+   * Number of most recent calls the failure rate is computed over (default: 20)
+   */
+  windowSize?: number;
+
+  /**
+   * Minimum number of calls in the window before the failure rate is considered
+   * (default: `windowSize`)
+   */
+  minimumCalls?: number;
+
+  /**
+   * Milliseconds the circuit stays open before allowing trial calls (default: 30000)
+   */
+  coolDownMs?: number;
+
+  /**
+   * Number of trial calls allowed in the half-open state; the circuit closes once they all
+   * succeed (default: 1)
+   */
+  halfOpenMaxCalls?: number;
+
+  /**
+   * Decides whether an error counts against the circuit (default: every error except
+   * cancellations and domain errors such as `ValidationError` or `NotFoundError`)
+   */
+  isFailure?: (error: Error) => boolean;
+
+  /**
+   * Called whenever the circuit changes state
+   */
+  onStateChange?: (to: CircuitState, from: CircuitState) => void;
+
+  /**
+   * Clock used for the cool-down (default: `systemClock`)
+   */
+  clock?: Clock;
+}
+
+/**
+ * Unknown errors (such as network failures) and technical errors count against the circuit,
+ * while cancellations and domain errors mean the dependency itself is fine
+ */
+function isDependencyFailure(error: Error): boolean {
+  return error instanceof ResultError ? isRetryableError(error) : true;
+}
+
+/**
+ * Stops calling a failing dependency for a while instead of hammering it.
+ *
+ * @remarks
+ * The circuit opens after `failureThreshold` consecutive failures, or when the failure rate over
+ * the last `windowSize` calls reaches `failureRateThreshold`. While open, `call` fails fast with a
+ * CircuitOpenError. After `coolDownMs` the circuit becomes half-open and lets `halfOpenMaxCalls`
+ * trial calls through: if they all succeed it closes again, and any failure re-opens it.
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({ name: 'payments', failureThreshold: 3, coolDownMs: 10_000 });
+ *
+ * const payment = await breaker.call(() => chargeCard(order));
+ * if (payment.isFailure && payment.error instanceof CircuitOpenError) {
+ *   // The payment service is down, don't wait for it
+ * }
+ * ```
+ */
+export class CircuitBreaker {
+  private readonly _options: CircuitBreakerOptions;
+  private readonly _clock: Clock;
+  private _state: CircuitState = 'closed';
+  private _openedAt = 0;
+  private _consecutiveFailures = 0;
+  private _window: boolean[] = [];
+  private _trialCalls = 0;
+  private _trialSuccesses = 0;
+  // Incremented on every transition, so outcomes of calls admitted before it are told apart
+  private _generation = 0;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this._options = options;
+    this._clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * The current state of the circuit. An open circuit whose cool-down has passed reports
+   * (and moves to) `half-open`.
+   */
+  public get state(): CircuitState {
+    if (
+      this._state === 'open' &&
+      this._clock.now() >= this._openedAt + (this._options.coolDownMs ?? 30_000)
+    ) {
+      this.transition('half-open');
+    }
+    return this._state;
+  }
+
+  /**
+   * Calls the function if the circuit allows it and records the outcome.
+   * Fails fast with a CircuitOpenError while the circuit is open.
+   *
+   * @param fn Call to the protected dependency
+   * @returns AsyncResult of the call, or a CircuitOpenError failure
+   */
+  public call<T, E extends Error>(
+    fn: () => Result<T, E> | PromiseLike<Result<T, E>>,
+  ): AsyncResult<T, E | CircuitOpenError> {
+    const state = this.state;
+    const trial = state === 'half-open';
+
+    if (state === 'open' || (trial && this._trialCalls >= (this._options.halfOpenMaxCalls ?? 1))) {
+      return AsyncResult.fail(new CircuitOpenError(this.name, this.retryAfterMs()));
+    }
+
+    if (trial) {
+      this._trialCalls++;
+    }
+
+    const generation = this._generation;
+    return AsyncResult.from(Promise.resolve().then(fn))
+      .tap(() => this.record(true, generation))
+      .tapError((error) => {
+        const { isFailure = isDependencyFailure } = this._options;
+        if (!(error instanceof CancellationError)) {
+          this.record(!isFailure(error), generation);
+        } else if (trial && generation === this._generation) {
+          // A cancelled trial proves nothing, so its slot goes to the next call
+          this._trialCalls--;
+        }
+      });
+  }
+
+  /**
+   * Closes the circuit and forgets all recorded calls
+   */
+  public reset(): void {
+    this.transition('closed');
+  }
+
+  /**
+   * Name of the circuit
+   */
+  private get name(): string {
+    return this._options.name ?? 'circuit';
+  }
+
+  /**
+   * Milliseconds until an open circuit lets a trial call through
+   */
+  private retryAfterMs(): number {
+    if (this._state !== 'open') {
+      return 0;
+    }
+    const coolDownMs = this._options.coolDownMs ?? 30_000;
+    return Math.max(0, this._openedAt + coolDownMs - this._clock.now());
+  }
+
+  /**
+   * Records the outcome of a call. Outcomes of calls admitted before the last transition are
+   * ignored, even if the circuit has returned to the state they were admitted in.
+   *
+   * @param success Whether the call succeeded
+   * @param generation The generation of the circuit when the call was admitted
+   */
+  private record(success: boolean, generation: number): void {
+    if (generation !== this._generation) {
+      return;
+    }
+
+    if (this._state === 'half-open') {
+      if (!success) {
+        this.transition('open');
+      } else if (++this._trialSuccesses >= (this._options.halfOpenMaxCalls ?? 1)) {
+        this.transition('closed');
+      }
+      return;
+    }
+
+    const {
+      failureThreshold = 5,
+      failureRateThreshold,
+      windowSize = 20,
+      minimumCalls = windowSize,
+    } = this._options;
+
+    this._consecutiveFailures = success ? 0 : this._consecutiveFailures + 1;
+    this._window.push(!success);
+    if (this._window.length > windowSize) {
+      this._window.shift();
+    }
+
+    const failures = this._window.filter((failed) => failed).length;
+    const rateExceeded = failureRateThreshold !== undefined &&
+      this._window.length >= minimumCalls &&
+      failures / this._window.length >= failureRateThreshold;
+
+    if (this._consecutiveFailures >= failureThreshold || rateExceeded) {
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Moves the circuit to a new state, resetting the counters of the state it leaves
+   */
+  private transition(to: CircuitState): void {
+    const from = this._state;
+    this._state = to;
+    this._consecutiveFailures = 0;
+    this._window = [];
+    this._trialCalls = 0;
+    this._trialSuccesses = 0;
+    this._generation++;
+    if (to === 'open') {
+      this._openedAt = this._clock.now();
+    }
+    if (from !== to) {
+      this._options.onStateChange?.(to, from);
+    }
+  }
+}
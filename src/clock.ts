@@ -0,0 +1,42 @@
+/**
+ * Source of time for time-based utilities such as `retry`.
+ *
+ * @remarks
+ * Inject a custom clock to control time in tests instead of waiting on real timers.
+ */
+export interface Clock {
+  /**
+   * Current time in milliseconds
+   */
+  now(): number;
+
+  /**
+   * Waits for the given number of milliseconds. Resolves early (never rejects) when the signal is
+   * aborted, so callers should check `signal.aborted` afterwards.
+   */
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
+/**
+ * Clock backed by `Date.now` and `setTimeout`
+ */
+export const systemClock: Clock = Object.freeze({
+  now: (): number => Date.now(),
+  sleep: (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise<void>((resolve) => {
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }),
+});
@@ -0,0 +1,137 @@
+import {
+  BusinessRuleError,
+  CancellationError,
+  CircuitOpenError,
+  CompositeError,
+  ConcurrencyError,
+  NotFoundError,
+  RejectedError,
+  ResultError,
+  RetryError,
+  TechnicalError,
+  TimeoutError,
+  UnauthorizedError,
+  ValidationError,
+} from './errors.ts';
+
+/**
+ * Error classes of this package, keyed by their `name`
+ */
+const knownErrors = {
+  ResultError,
+  ValidationError,
+  NotFoundError,
+  UnauthorizedError,
+  BusinessRuleError,
+  TechnicalError,
+  TimeoutError,
+  ConcurrencyError,
+  CancellationError,
+  CompositeError,
+  RetryError,
+  CircuitOpenError,
+  RejectedError,
+};
+
+type KnownErrors = typeof knownErrors;
+
+/**
+ * The narrowest instance type of each built-in error class; generic classes use `never` type
+ * arguments so that every instantiation of them is matched
+ */
+type KnownErrorLowerBounds =
+  & Omit<
+    { [K in keyof KnownErrors]: InstanceType<KnownErrors[K]> },
+    'CompositeError' | 'RetryError'
+  >
+  & { CompositeError: CompositeError<never>; RetryError: RetryError<never> };
+
+/**
+ * Any error class constructor, including abstract ones
+ */
+export type ErrorClass<E extends Error = Error> = abstract new (...args: never[]) => E;
+
+/**
+ * The name of the built-in error class that is exactly `M`, if any
+ */
+type KnownErrorName<M extends Error> = {
+  [K in keyof KnownErrors]: [M] extends [InstanceType<KnownErrors[K]>]
+    ? [KnownErrorLowerBounds[K]] extends [M] ? K : never
+    : never;
+}[keyof KnownErrors];
+
+/**
+ * The literal `name` declared by a custom error class, if any
+ */
+type LiteralErrorName<M extends Error> = string extends M['name'] ? never : M['name'];
+
+/**
+ * Resolves the handler key for a single error type. Errors whose name is only known to be a
+ * `string` resolve to `never` and must be handled by the `_` fallback.
+ */
+type ErrorName<M extends Error> = [KnownErrorName<M>] extends [never] ? LiteralErrorName<M>
+  : KnownErrorName<M>;
+
+/**
+ * The handler keys of every member of an error union
+ */
+type ErrorNames<E extends Error> = E extends Error ? ErrorName<E> : never;
+
+/**
+ * The members of an error union that have a resolvable name
+ */
+type NamedError<E extends Error, N> = E extends Error ? ErrorName<E> extends N ? E : never
+  : never;
+
+/**
+ * The members of an error union without a resolvable name
+ */
+type UnnamedError<E extends Error> = E extends Error ? [ErrorName<E>] extends [never] ? E : never
+  : never;
+
+/**
+ * Handlers for every member of an error union, keyed by error name.
+ * A `_` fallback is required when the union contains errors without a known name
+ * (such as plain `Error`), and optional otherwise.
+ */
+export type ErrorHandlers<E extends Error, U> =
+  & { [N in Extract<ErrorNames<E>, string>]: (error: NamedError<E, N>) => U }
+  & ([UnnamedError<E>] extends [never] ? { _?: (error: E) => U }
+    : { _: (error: UnnamedError<E>) => U });
+
+/**
+ * Finds the most specific handler for an error: an exact `name` match first, then the closest
+ * built-in error class in its prototype chain, then the `_` fallback.
+ *
+ * @throws TypeError if no handler matches
+ */
+export function findErrorHandler<E extends Error, U>(
+  error: E,
+  handlers: ErrorHandlers<E, U>,
+): (error: E) => U {
+  const byName = handlers as unknown as Record<string, ((error: E) => U) | undefined>;
+
+  const named = byName[error.name];
+  const namedClass = knownErrors[error.name as keyof KnownErrors] as ErrorClass | undefined;
+  if (named && (!namedClass || error instanceof namedClass)) {
+    return named;
+  }
+
+  for (
+    let proto = Object.getPrototypeOf(error);
+    proto !== null && proto !== Error.prototype;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    for (const [name, errorClass] of Object.entries(knownErrors)) {
+      if (errorClass.prototype === proto && byName[name]) {
+        return byName[name] as (error: E) => U;
+      }
+    }
+  }
+
+  if (byName._) {
+    return byName._;
+  }
+
+  throw new TypeError(`No handler matches error '${error.name}': ${error.message}`);
+}
@@ -3,9 +3,13 @@ import { assertEquals } from 'jsr:@std/assert';
 import {
   BusinessRuleError,
   CancellationError,
+  CircuitOpenError,
+  CompositeError,
   ConcurrencyError,
   NotFoundError,
+  RejectedError,
   ResultError,
+  RetryError,
   TechnicalError,
   TimeoutError,
   UnauthorizedError,
@@ -29,10 +33,29 @@ Deno.test('ResultError', async (t) => {
   });
 });
 
-Deno.test('ValidationError', () => {
-  const error = new ValidationError('Invalid input');
-  assertEquals(error.name, 'ValidationError');
-  assertEquals(error.message, 'Validation Error: Invalid input');
+Deno.test('ValidationError', async (t) => {
+  await t.step('creates with a single issue for the message', () => {
+    const error = new ValidationError('Invalid input');
+    assertEquals(error.name, 'ValidationError');
+    assertEquals(error.message, 'Validation Error: Invalid input');
+    assertEquals(error.issues, [{ path: [], code: 'custom', message: 'Invalid input' }]);
+  });
+
+  await t.step('creates from issues and flattens them', () => {
+    const error = ValidationError.fromIssues([
+      { path: ['items', 0, 'name'], code: 'required', message: 'Name is required' },
+      { path: ['items', 0, 'name'], code: 'minLength', message: 'Name is too short' },
+      { path: [], code: 'custom', message: 'Order is invalid' },
+    ]);
+    assertEquals(
+      error.message,
+      'Validation Error: Name is required, Name is too short, Order is invalid',
+    );
+    assertEquals(error.flatten(), {
+      'items[0].name': ['Name is required', 'Name is too short'],
+      '': ['Order is invalid'],
+    });
+  });
 });
 
 Deno.test('NotFoundError', async (t) => {
@@ -115,3 +138,45 @@ Deno.test('CancellationError', async (t) => {
     assertEquals(error.message.includes('Technical Error:'), false);
   });
 });
+
+Deno.test('CompositeError', async (t) => {
+  await t.step('joins the messages of its errors', () => {
+    const errors = [new Error('first'), new ValidationError('second')];
+    const error = new CompositeError(errors);
+    assertEquals(error.name, 'CompositeError');
+    assertEquals(error.message, 'Composite Error: first; Validation Error: second');
+    assertEquals(error.errors, errors);
+    assertEquals(error instanceof ResultError, true);
+  });
+
+  await t.step('uses a custom message', () => {
+    const error = new CompositeError([], 'Nothing to combine');
+    assertEquals(error.message, 'Composite Error: Nothing to combine');
+  });
+});
+
+Deno.test('RetryError', () => {
+  const errors = [new TechnicalError('down'), new TimeoutError('fetch', 100)];
+  const error = new RetryError(errors);
+  assertEquals(error.name, 'RetryError');
+  assertEquals(error.attempts, 2);
+  assertEquals(error.errors, errors);
+  assertEquals(error.cause, errors[1]);
+  assertEquals(error instanceof TechnicalError, true);
+});
+
+Deno.test('CircuitOpenError', () => {
+  const error = new CircuitOpenError('payments', 250);
+  assertEquals(error.name, 'CircuitOpenError');
+  assertEquals(error.message, "Technical Error: Circuit 'payments' is open, retry after 250ms");
+  assertEquals(error.circuit, 'payments');
+  assertEquals(error.retryAfterMs, 250);
+  assertEquals(error instanceof TechnicalError, true);
+});
+
+Deno.test('RejectedError', () => {
+  const error = new RejectedError('database', 'bulkhead is full');
+  assertEquals(error.name, 'RejectedError');
+  assertEquals(error.message, "Technical Error: 'database' rejected the call: bulkhead is full");
+  assertEquals(error.resource, 'database');
+});
@@ -1,7 +1,15 @@
+import { flattenIssues, type ValidationIssue } from './issues.ts';
+
 /**
  * Base custom error class for the Result package
  */
 export class ResultError extends Error {
+  /**
+   * Nominal brand that keeps structurally identical error classes distinct at the type level,
+   * so error unions can be narrowed and matched exhaustively
+   */
+  declare private readonly _resultError: void;
+
   // Use declare for cause property since it's part of the Error prototype in newer JS
   public override readonly cause?: Error;
 
@@ -23,17 +31,43 @@ export class ResultError extends Error {
  * Error for validation failures
  */
 export class ValidationError extends ResultError {
-  constructor(message: string, cause?: Error) {
+  declare private readonly _validationError: void;
+
+  /**
+   * The individual problems, each located by the path of the offending value.
+   * Defaults to a single issue about the validated value itself.
+   */
+  public readonly issues: readonly ValidationIssue[];
+
+  constructor(message: string, cause?: Error, issues?: readonly ValidationIssue[]) {
     super(`Validation Error: ${message}`, cause);
     this.name = 'ValidationError';
+    this.issues = issues ?? [{ path: [], code: 'custom', message }];
     Object.setPrototypeOf(this, ValidationError.prototype);
   }
+
+  /**
+   * Creates a validation error from its issues, joining their messages into the error message
+   */
+  public static fromIssues(issues: readonly ValidationIssue[], cause?: Error): ValidationError {
+    return new ValidationError(issues.map((issue) => issue.message).join(', '), cause, issues);
+  }
+
+  /**
+   * Groups the issue messages by their formatted path (such as `items[0].name`), e.g. for form
+   * libraries. Issues about the validated value itself are grouped under the empty string.
+   */
+  public flatten(): Record<string, string[]> {
+    return flattenIssues(this.issues);
+  }
 }
 
 /**
  * Error for not found resources
  */
 export class NotFoundError extends ResultError {
+  declare private readonly _notFoundError: void;
+
   constructor(resource: string, id?: string, cause?: Error) {
     const idMessage = id ? ` with id '${id}'` : '';
     super(`Not Found: ${resource}${idMessage} could not be found`, cause);
@@ -46,6 +80,8 @@ export class NotFoundError extends ResultError {
  * Error for unauthorized operations
  */
 export class UnauthorizedError extends ResultError {
+  declare private readonly _unauthorizedError: void;
+
   constructor(message = 'You are not authorized to perform this operation', cause?: Error) {
     super(`Unauthorized: ${message}`, cause);
     this.name = 'UnauthorizedError';
@@ -57,6 +93,8 @@ export class UnauthorizedError extends ResultError {
  * Error for business rule violations
  */
 export class BusinessRuleError extends ResultError {
+  declare private readonly _businessRuleError: void;
+
   constructor(message: string, cause?: Error) {
     super(`Business Rule Violation: ${message}`, cause);
     this.name = 'BusinessRuleError';
@@ -68,6 +106,8 @@ export class BusinessRuleError extends ResultError {
  * Error for technical/infrastructure issues
  */
 export class TechnicalError extends ResultError {
+  declare private readonly _technicalError: void;
+
   constructor(message: string, cause?: Error) {
     super(`Technical Error: ${message}`, cause);
     this.name = 'TechnicalError';
@@ -79,6 +119,8 @@ export class TechnicalError extends ResultError {
  * Error for timeouts
  */
 export class TimeoutError extends TechnicalError {
+  declare private readonly _timeoutError: void;
+
   constructor(operation: string, timeoutMs: number, cause?: Error) {
     super(`Operation '${operation}' timed out after ${timeoutMs}ms`, cause);
     this.name = 'TimeoutError';
@@ -90,6 +132,8 @@ export class TimeoutError extends TechnicalError {
  * Error for concurrent modification
  */
 export class ConcurrencyError extends ResultError {
+  declare private readonly _concurrencyError: void;
+
   constructor(resource: string, id?: string, cause?: Error) {
     const idMessage = id ? ` with id '${id}'` : '';
     super(`Concurrency Error: ${resource}${idMessage} was modified by another process`, cause);
@@ -102,6 +146,8 @@ export class ConcurrencyError extends ResultError {
  * Error for cancelled operations
  */
 export class CancellationError extends TechnicalError {
+  declare private readonly _cancellationError: void;
+
   /**
    * Request ID or other identifier for the cancelled operation
    */
@@ -123,3 +169,99 @@ export class CancellationError extends TechnicalError {
     Object.setPrototypeOf(this, CancellationError.prototype);
   }
 }
+
+/**
+ * Error collecting several errors, e.g. every failure from a batch of results
+ */
+export class CompositeError<E extends Error = Error> extends ResultError {
+  declare private readonly _compositeError: void;
+
+  /**
+   * The collected errors, in the order they occurred
+   */
+  public readonly errors: readonly E[];
+
+  constructor(errors: readonly E[], message?: string, cause?: Error) {
+    super(
+      `Composite Error: ${message ?? errors.map((error) => error.message).join('; ')}`,
+      cause,
+    );
+    this.name = 'CompositeError';
+    this.errors = errors;
+    Object.setPrototypeOf(this, CompositeError.prototype);
+  }
+}
+
+/**
+ * Error for an operation that still failed after being retried
+ */
+export class RetryError<E extends Error = Error> extends TechnicalError {
+  declare private readonly _retryError: void;
+
+  /**
+   * The error of every attempt, in order
+   */
+  public readonly errors: readonly E[];
+
+  /**
+   * Number of attempts that were made
+   */
+  public readonly attempts: number;
+
+  constructor(errors: readonly E[], reason = 'retries exhausted') {
+    super(
+      `Operation failed after ${errors.length} attempt(s), ${reason}: ${
+        errors.map((error) => error.message).join('; ')
+      }`,
+      errors[errors.length - 1],
+    );
+    this.name = 'RetryError';
+    this.errors = errors;
+    this.attempts = errors.length;
+    Object.setPrototypeOf(this, RetryError.prototype);
+  }
+}
+
+/**
+ * Error for calls rejected by a circuit breaker while its circuit is open
+ */
+export class CircuitOpenError extends TechnicalError {
+  declare private readonly _circuitOpenError: void;
+
+  /**
+   * Name of the circuit that rejected the call
+   */
+  public readonly circuit: string;
+
+  /**
+   * Milliseconds until the circuit lets a trial call through
+   */
+  public readonly retryAfterMs: number;
+
+  constructor(circuit: string, retryAfterMs: number, cause?: Error) {
+    super(`Circuit '${circuit}' is open, retry after ${retryAfterMs}ms`, cause);
+    this.name = 'CircuitOpenError';
+    this.circuit = circuit;
+    this.retryAfterMs = retryAfterMs;
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Error for calls rejected by admission control, such as a full bulkhead or an exceeded rate limit
+ */
+export class RejectedError extends TechnicalError {
+  declare private readonly _rejectedError: void;
+
+  /**
+   * Name of the resource that rejected the call
+   */
+  public readonly resource: string;
+
+  constructor(resource: string, reason: string, cause?: Error) {
+    super(`'${resource}' rejected the call: ${reason}`, cause);
+    this.name = 'RejectedError';
+    this.resource = resource;
+    Object.setPrototypeOf(this, RejectedError.prototype);
+  }
+}
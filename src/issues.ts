@@ -0,0 +1,71 @@
+/**
+ * A single validation problem, located by the path of the offending value
+ */
+export interface ValidationIssue {
+  /**
+   * Property names and array indexes leading to the value, empty for the validated value itself
+   */
+  path: (string | number)[];
+
+  /**
+   * Machine-readable identifier of the failed rule, such as `required` or `maxLength`
+   */
+  code: string;
+
+  /**
+   * Human-readable description of the problem
+   */
+  message: string;
+
+  /**
+   * Parameters of the failed rule, such as `{ length: 100 }` for `maxLength`
+   */
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Formats an issue path the way it is written in code, e.g. `items[0].name`.
+ * The empty path of the validated value itself is formatted as an empty string.
+ */
+export function formatPath(path: readonly (string | number)[]): string {
+  return path.reduce<string>(
+    (formatted, segment) =>
+      typeof segment === 'number'
+        ? `${formatted}[${segment}]`
+        : formatted === ''
+        ? segment
+        : `${formatted}.${segment}`,
+    '',
+  );
+}
+
+/**
+ * Parses a path written like `items[0].name` (as reported by Yup) into its segments
+ */
+export function parsePath(path: string): (string | number)[] {
+  return (path.match(/[^.[\]]+|\[\d+\]/g) ?? []).map((segment) =>
+    segment.startsWith('[') ? Number(segment.slice(1, -1)) : segment
+  );
+}
+
+/**
+ * Groups issue messages by their formatted path, e.g. for form libraries.
+ * Issues about the validated value itself are grouped under the empty string.
+ *
+ * @example
+ * ```typescript
+ * flattenIssues(error.issues);
+ * // { 'name': ['name cannot be empty'], 'items[0].price': ['items[0].price must be at least 0.01'] }
+ * ```
+ */
+export function flattenIssues(issues: readonly ValidationIssue[]): Record<string, string[]> {
+  // A Map rather than an object, so paths like `toString` or `__proto__` are never inherited
+  const flattened = new Map<string, string[]>();
+
+  for (const issue of issues) {
+    const key = formatPath(issue.path);
+    flattened.set(key, [...flattened.get(key) ?? [], issue.message]);
+  }
+
+  return Object.fromEntries(flattened);
+}
@@ -0,0 +1,144 @@
+// @ts-nocheck - Deno imports are not recognized by TypeScript
+import { assertEquals, assertThrows } from 'jsr:@std/assert';
+import { fromJsonSchema, toJsonSchema } from './json-schema.ts';
+import { s } from './schema.ts';
+import { Validator } from './validation.ts';
+
+Deno.test('JSON Schema - Export', async (t) => {
+  await t.step('describes objects with their required properties', () => {
+    const userSchema = s.object({
+      name: s.string().min(1).max(20).matches(/^[A-Z]/),
+      email: s.string().email(),
+      age: s.number().int().min(0).max(150).optional(),
+      role: s.string().oneOf(['admin', 'member']).default('member'),
+      tags: s.array(s.string()).max(3).unique(),
+      address: s.object({ city: s.string() }).nullable(),
+    });
+
+    assertEquals(toJsonSchema(userSchema), {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 20, pattern: '^[A-Z]' },
+        email: { type: 'string', format: 'email' },
+        age: { type: 'integer', minimum: 0, maximum: 150 },
+        role: { type: 'string', enum: ['admin', 'member'], default: 'member' },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 3, uniqueItems: true },
+        address: {
+          anyOf: [
+            { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+            { type: 'null' },
+          ],
+        },
+      },
+      required: ['name', 'email', 'tags', 'address'],
+    });
+  });
+
+  await t.step('describes tuples, records, unions and literals', () => {
+    const { $schema: _, ...point } = s.tuple([s.number(), s.literal('m')]).toJsonSchema();
+
+    assertEquals(point, {
+      type: 'array',
+      prefixItems: [{ type: 'number' }, { const: 'm' }],
+      items: false,
+      minItems: 2,
+    });
+    assertEquals(s.record(s.boolean()).toJsonSchema().additionalProperties, { type: 'boolean' });
+    assertEquals(s.union([s.string(), s.number()]).toJsonSchema().anyOf, [
+      { type: 'string' },
+      { type: 'number' },
+    ]);
+  });
+
+  await t.step('describes the lengths of arrays by their number of items', () => {
+    const { properties } = Validator.toJsonSchema<{ code: string; tags: string[]; id: unknown }>(
+      (value) =>
+        value
+          .property('code', (code) => code.isString().length(3))
+          .property('tags', (tags) => tags.isArray().length(2).maxLength(5))
+          .property('id', (id) => id.minLength(1)),
+    );
+
+    assertEquals(properties, {
+      code: { type: 'string', minLength: 3, maxLength: 3 },
+      tags: { type: 'array', minItems: 2, maxItems: 2 },
+      id: {},
+    });
+  });
+
+  await t.step('keeps repeated keywords in allOf and leaves out custom rules', () => {
+    const code = s.string().matches(/^[A-Z]/).matches(/\d$/).custom((v) => v !== 'A0');
+
+    assertEquals(code.toJsonSchema().pattern, '^[A-Z]');
+    assertEquals(code.toJsonSchema().allOf, [{ pattern: '\\d$' }]);
+  });
+});
+
+Deno.test('JSON Schema - Import', async (t) => {
+  const userSchema = fromJsonSchema({
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 20, title: 'Name' },
+      email: { type: 'string', format: 'email' },
+      age: { type: 'integer', minimum: 0 },
+      role: { enum: ['admin', 'member'], default: 'member' },
+      tags: { type: 'array', items: { type: 'string', pattern: '^[a-z]+$' }, maxItems: 2 },
+      address: { type: ['object', 'null'], properties: { city: { type: 'string' } } },
+    },
+    required: ['name', 'email'],
+  });
+
+  await t.step('parses valid input, applying defaults', () => {
+    const result = userSchema.parse({ name: 'Ann', email: 'ann@example.com', tags: ['a'] });
+
+    assertEquals(result.value, {
+      name: 'Ann',
+      email: 'ann@example.com',
+      role: 'member',
+      tags: ['a'],
+    });
+  });
+
+  await t.step('reports issues with the codes of the equivalent rules', () => {
+    const result = userSchema.parse({
+      name: '',
+      email: 'ann',
+      age: -1,
+      role: 'owner',
+      tags: ['a', 'B', 'c'],
+    });
+
+    assertEquals(result.error.issues.map(({ path, code }) => ({ path, code })), [
+      { path: ['name'], code: 'minLength' },
+      { path: ['email'], code: 'email' },
+      { path: ['age'], code: 'min' },
+      { path: ['role'], code: 'oneOf' },
+      { path: ['tags', 1], code: 'matches' },
+    ]);
+    assertEquals(userSchema.parse({}).error.issues[0], {
+      path: ['name'],
+      code: 'required',
+      message: 'name is required',
+    });
+  });
+
+  await t.step('builds schemas equivalent to exported ones', () => {
+    const schema = s.object({
+      code: s.string().matches(/^[A-Z]/).matches(/\d$/),
+      price: s.number().positive().multipleOf(0.01),
+      point: s.tuple([s.number(), s.number()]),
+    });
+    const imported = fromJsonSchema(schema.toJsonSchema());
+
+    for (const input of [{ code: 'A1', price: 0.5, point: [1, 2] }, { code: 'a', price: 0 }, []]) {
+      assertEquals(imported.parse(input), schema.parse(input));
+    }
+  });
+
+  await t.step('rejects keywords it cannot turn into rules', () => {
+    assertThrows(() => fromJsonSchema({ $ref: '#/$defs/User' }), TypeError, '$ref');
+    assertThrows(() => fromJsonSchema({ type: 'number', exclusiveMinimum: 5 }), TypeError);
+    assertThrows(() => fromJsonSchema({ allOf: [{ type: 'string' }] }), TypeError, 'allOf');
+  });
+});
@@ -0,0 +1,383 @@
+import {
+  type ArraySchema,
+  type NumberSchema,
+  s,
+  type Schema,
+  type StringSchema,
+} from './schema.ts';
+
+/**
+ * The types of a JSON Schema `type` keyword
+ */
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null'
+  | 'object'
+  | 'array';
+
+/**
+ * A JSON Schema (draft 2020-12) document, listing the keywords used by `toJsonSchema` and
+ * understood by `fromJsonSchema`
+ */
+export interface JsonSchema {
+  $schema?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  const?: unknown;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: false | JsonSchema;
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  default?: unknown;
+  [keyword: string]: unknown;
+}
+
+/**
+ * Keywords that only annotate a schema, without affecting which values it accepts
+ */
+const ANNOTATIONS = new Set([
+  '$schema',
+  '$id',
+  '$comment',
+  'title',
+  'description',
+  'examples',
+  'deprecated',
+  'readOnly',
+  'writeOnly',
+  'default',
+]);
+
+/**
+ * Keywords adding a rule to a string, number or array schema, which `allOf` subschemas may use
+ */
+const RULE_KEYWORDS = new Set([
+  'minLength',
+  'maxLength',
+  'pattern',
+  'format',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+]);
+
+/**
+ * Keywords `fromJsonSchema` turns into schemas and rules
+ */
+const KEYWORDS = new Set([
+  ...RULE_KEYWORDS,
+  'type',
+  'const',
+  'enum',
+  'anyOf',
+  'oneOf',
+  'allOf',
+  'properties',
+  'required',
+  'additionalProperties',
+  'items',
+  'prefixItems',
+]);
+
+/**
+ * Formats with an equivalent string rule; other formats are annotations
+ */
+const FORMATS: Record<string, (schema: StringSchema) => StringSchema> = {
+  email: (schema) => schema.email(),
+  uri: (schema) => schema.url(),
+  uuid: (schema) => schema.uuid(),
+  ipv4: (schema) => schema.ip(4),
+  ipv6: (schema) => schema.ip(6),
+  date: (schema) => schema.isoDate(),
+  'date-time': (schema) => schema.isoDate(),
+};
+
+/**
+ * Describes a schema or rule set as a JSON Schema (draft 2020-12) document, e.g. to keep OpenAPI
+ * definitions in sync with runtime validation. Shorthand for `definition.toJsonSchema()`.
+ *
+ * @param definition - The schema or rule set to describe
+ * @returns The JSON Schema document
+ *
+ * @example
+ * ```typescript
+ * const userSchema = s.object({ email: s.string().email(), age: s.number().int().optional() });
+ *
+ * openApi.components.schemas.User = toJsonSchema(userSchema);
+ * // { type: 'object', properties: { email: { type: 'string', format: 'email' }, ... },
+ * //   required: ['email'] }
+ * ```
+ */
+export function toJsonSchema(definition: { toJsonSchema(): JsonSchema }): JsonSchema {
+  return definition.toJsonSchema();
+}
+
+/**
+ * Builds a schema from a JSON Schema (draft 2020-12) document, whose `parse` validates input
+ * against it. Issues use the codes of the equivalent rules, such as `minLength` or `oneOf`.
+ *
+ * @remarks
+ * Objects strip properties missing from `properties` instead of rejecting them, and `oneOf`
+ * accepts the first matching option like `anyOf`. `allOf` subschemas may only add string, number
+ * and array rules, such as a second `pattern`. References (`$ref`) and conditional keywords are
+ * not supported.
+ *
+ * @param document - The JSON Schema document
+ * @returns A schema parsing input into the type `T`
+ * @throws TypeError if the document uses a keyword that can't be turned into a rule
+ *
+ * @example
+ * ```typescript
+ * const userSchema = fromJsonSchema<User>(openApi.components.schemas.User);
+ *
+ * const user = userSchema.parse(await request.json()); // Result<User, ValidationError>
+ * ```
+ */
+export function fromJsonSchema<T = unknown>(document: JsonSchema): Schema<T> {
+  const unsupported = Object.keys(document).find(
+    (keyword) => !KEYWORDS.has(keyword) && !ANNOTATIONS.has(keyword),
+  );
+  if (unsupported !== undefined) {
+    throw new TypeError(`Unsupported JSON Schema keyword: ${unsupported}`);
+  }
+
+  const allOfKeyword = document.allOf?.flatMap(Object.keys).find(
+    (keyword) => !RULE_KEYWORDS.has(keyword),
+  );
+  if (allOfKeyword !== undefined) {
+    throw new TypeError(`Unsupported JSON Schema keyword in allOf: ${allOfKeyword}`);
+  }
+
+  const schema = fromKeywords(document);
+  return (document.default === undefined ? schema : schema.default(document.default)) as Schema<T>;
+}
+
+/**
+ * Builds the schema of a document's validation keywords
+ */
+function fromKeywords(document: JsonSchema): Schema<unknown> {
+  const options = document.anyOf ?? document.oneOf;
+  if (options) {
+    return s.union(options.map((option) => fromJsonSchema(option)));
+  }
+
+  if ('const' in document) {
+    return s.literal(toLiteral(document.const));
+  }
+
+  if (document.enum) {
+    return fromEnum(document.enum);
+  }
+
+  const types = document.type === undefined ? inferTypes(document) : [document.type].flat();
+  if (types.length === 0) {
+    return s.unknown();
+  }
+  if (types.length > 1) {
+    return s.union(types.map((type) => fromType(type, document)));
+  }
+  return fromType(types[0], document);
+}
+
+/**
+ * Infers the type of a document without a `type` keyword from its keywords
+ */
+function inferTypes(document: JsonSchema): JsonSchemaType[] {
+  if (document.properties || document.additionalProperties !== undefined) {
+    return ['object'];
+  }
+  if (document.items !== undefined || document.prefixItems) {
+    return ['array'];
+  }
+  return [];
+}
+
+/**
+ * Builds the schema of a single type, with the rules of the keywords that apply to it
+ */
+function fromType(type: JsonSchemaType, document: JsonSchema): Schema<unknown> {
+  // Every `allOf` subschema must hold, so their rules are added to the same schema
+  const parts = [document, ...document.allOf ?? []];
+
+  switch (type) {
+    case 'string':
+      return parts.reduce(fromStringKeywords, s.string());
+    case 'number':
+      return parts.reduce(fromNumberKeywords, s.number());
+    case 'integer':
+      return parts.reduce(fromNumberKeywords, s.number().int());
+    case 'boolean':
+      return s.boolean();
+    case 'null':
+      return s.literal(null);
+    case 'object':
+      return fromObject(document);
+    case 'array':
+      if (document.prefixItems) {
+        return fromTuple(document.prefixItems, document.items);
+      }
+      return parts.reduce(
+        fromArrayKeywords,
+        s.array(document.items ? fromJsonSchema(document.items) : s.unknown()),
+      );
+    default:
+      throw new TypeError(`Unsupported JSON Schema type: ${type}`);
+  }
+}
+
+/**
+ * Adds the rules of the string keywords of a document
+ */
+function fromStringKeywords(schema: StringSchema, document: JsonSchema): StringSchema {
+  const { minLength, maxLength, pattern, format } = document;
+  let result = schema;
+  if (minLength !== undefined) {
+    result = result.min(minLength);
+  }
+  if (maxLength !== undefined) {
+    result = result.max(maxLength);
+  }
+  if (pattern !== undefined) {
+    result = result.matches(new RegExp(pattern));
+  }
+  if (format !== undefined && Object.hasOwn(FORMATS, format)) {
+    result = FORMATS[format](result);
+  }
+  return result;
+}
+
+/**
+ * Adds the rules of the number keywords of a document
+ */
+function fromNumberKeywords(schema: NumberSchema, document: JsonSchema): NumberSchema {
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } = document;
+  // Only the exclusive bounds of `positive()` and `negative()` have an equivalent rule
+  if (exclusiveMinimum !== undefined && exclusiveMinimum !== 0) {
+    throw new TypeError(`Unsupported JSON Schema exclusiveMinimum: ${exclusiveMinimum}`);
+  }
+  if (exclusiveMaximum !== undefined && exclusiveMaximum !== 0) {
+    throw new TypeError(`Unsupported JSON Schema exclusiveMaximum: ${exclusiveMaximum}`);
+  }
+
+  let result = schema;
+  if (minimum !== undefined) {
+    result = result.min(minimum);
+  }
+  if (maximum !== undefined) {
+    result = result.max(maximum);
+  }
+  if (exclusiveMinimum === 0) {
+    result = result.positive();
+  }
+  if (exclusiveMaximum === 0) {
+    result = result.negative();
+  }
+  if (multipleOf !== undefined) {
+    result = result.multipleOf(multipleOf);
+  }
+  return result;
+}
+
+/**
+ * Adds the rules of the array keywords of a document
+ */
+function fromArrayKeywords(
+  schema: ArraySchema<unknown>,
+  document: JsonSchema,
+): ArraySchema<unknown> {
+  const { minItems, maxItems, uniqueItems } = document;
+  let result = schema;
+  if (minItems !== undefined) {
+    result = result.min(minItems);
+  }
+  if (maxItems !== undefined) {
+    result = result.max(maxItems);
+  }
+  if (uniqueItems) {
+    result = result.unique();
+  }
+  return result;
+}
+
+/**
+ * Builds the schema of an object, or of a record if it has no `properties`
+ */
+function fromObject(document: JsonSchema): Schema<unknown> {
+  const { properties, required = [], additionalProperties } = document;
+
+  if (!properties) {
+    return s.record(
+      typeof additionalProperties === 'object' ? fromJsonSchema(additionalProperties) : s.unknown(),
+    );
+  }
+  if (typeof additionalProperties === 'object') {
+    throw new TypeError('Unsupported JSON Schema additionalProperties alongside properties');
+  }
+
+  const shape = Object.fromEntries(
+    Object.entries(properties).map(([key, property]) => {
+      const schema = fromJsonSchema(property);
+      // Properties with a default already accept `undefined`
+      const optional = !required.includes(key) && property.default === undefined;
+      return [key, optional ? schema.optional() : schema];
+    }),
+  );
+  return s.object(shape);
+}
+
+/**
+ * Builds the schema of a tuple, whose items are listed by `prefixItems`
+ */
+function fromTuple(prefixItems: JsonSchema[], items: JsonSchema['items']): Schema<unknown> {
+  if (items !== false) {
+    throw new TypeError('Unsupported JSON Schema prefixItems without items: false');
+  }
+  return s.tuple(prefixItems.map((item) => fromJsonSchema(item)));
+}
+
+/**
+ * Builds the schema of an `enum`, narrowing strings and numbers with `oneOf`
+ */
+function fromEnum(values: unknown[]): Schema<unknown> {
+  if (values.every((value) => typeof value === 'string')) {
+    return s.string().oneOf(values as string[]);
+  }
+  if (values.every((value) => typeof value === 'number')) {
+    return s.number().oneOf(values as number[]);
+  }
+  return s.union(values.map((value) => s.literal(toLiteral(value))));
+}
+
+/**
+ * Checks that a `const` or `enum` value can be compared by identity
+ */
+function toLiteral(value: unknown): string | number | boolean | null {
+  if (value !== null && typeof value === 'object') {
+    throw new TypeError('Unsupported JSON Schema const or enum value: objects and arrays');
+  }
+  return value as string | number | boolean | null;
+}
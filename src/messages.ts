@@ -0,0 +1,119 @@
+import { formatPath, type ValidationIssue } from './issues.ts';
+
+/**
+ * Message templates keyed by rule code. `{path}` is replaced by the path of the offending value
+ * and `{param}` placeholders by the rule's parameters, such as `{max}` or `{allowed}`.
+ */
+export type MessageCatalog = Readonly<Record<string, string>>;
+
+/**
+ * Produces the message of an issue, or undefined to fall back to the message catalog
+ */
+export type MessageFormatter = (
+  issue: Omit<ValidationIssue, 'message'>,
+  locale: string | undefined,
+) => string | undefined;
+
+/**
+ * Options for rendering validation messages, accepted by `validate()` and schema `parse()`
+ */
+export interface MessageOptions {
+  /**
+   * Locale passed to the formatter and used to format numbers in messages
+   * (default: numbers are formatted with `String`)
+   */
+  locale?: string;
+
+  /**
+   * Message templates replacing the English defaults; codes missing from it use the English
+   * default
+   */
+  messages?: MessageCatalog;
+
+  /**
+   * Produces messages before the catalog is consulted, such as a lookup in an i18n library
+   */
+  formatter?: MessageFormatter;
+}
+
+/**
+ * The built-in English messages of every rule code
+ */
+export const englishMessages: MessageCatalog = Object.freeze({
+  required: '{path} is required',
+  notEmpty: '{path} cannot be empty',
+  maxLength: '{path} cannot exceed {length} characters',
+  minLength: '{path} must be at least {length} characters',
+  length: '{path} must have a length of {length}',
+  isString: '{path} must be a string',
+  isNumber: '{path} must be a number',
+  isInteger: '{path} must be an integer',
+  isBoolean: '{path} must be a boolean',
+  isDate: '{path} must be a valid date',
+  isObject: '{path} must be an object',
+  isArray: '{path} must be an array',
+  min: '{path} must be at least {min}',
+  max: '{path} cannot exceed {max}',
+  positive: '{path} must be positive',
+  negative: '{path} must be negative',
+  multipleOf: '{path} must be a multiple of {step}',
+  minItems: '{path} must contain at least {count} items',
+  maxItems: '{path} cannot contain more than {count} items',
+  unique: '{path} must not contain duplicate items',
+  email: '{path} must be a valid email address',
+  url: '{path} must be a valid URL',
+  uuid: '{path} must be a valid UUID',
+  ip: '{path} must be a valid IP address',
+  isoDate: '{path} must be an ISO 8601 date',
+  json: '{path} must be valid JSON',
+  startsWith: '{path} must start with {prefix}',
+  endsWith: '{path} must end with {suffix}',
+  matches: '{path} does not match the required pattern',
+  oneOf: '{path} must be one of: {allowed}',
+  literal: '{path} must be {expected}',
+  union: '{path} does not match any of the allowed types',
+  before: '{path} must be before {date}',
+  after: '{path} must be after {date}',
+  maxDepth: '{path} exceeds the maximum nesting depth of {maxDepth}',
+  custom: 'Validation failed for {path}',
+});
+
+/**
+ * An issue whose message hasn't been rendered yet. Only custom messages are set; the others come
+ * from the message catalog when the issue is rendered.
+ */
+export type UnrenderedIssue = Omit<ValidationIssue, 'message'> & { message?: string };
+
+/**
+ * Renders the message of an issue: its custom message, else the formatter's, else the catalog's,
+ * else the English default. `{path}` and `{param}` placeholders are then interpolated; the empty
+ * path is rendered as `value`, and array parameters as comma-separated lists.
+ *
+ * @param issue - The issue to render
+ * @param options - The locale, catalog and formatter to use
+ */
+export function renderIssue(issue: UnrenderedIssue, options: MessageOptions = {}): ValidationIssue {
+  const { locale, messages, formatter } = options;
+  const template = issue.message ?? formatter?.(issue, locale) ?? messages?.[issue.code] ??
+    englishMessages[issue.code] ?? englishMessages.custom;
+
+  const values: Record<string, unknown> = {
+    ...issue.params,
+    path: formatPath(issue.path) || 'value',
+  };
+  const format = (value: unknown): string =>
+    Array.isArray(value)
+      ? value.map(format).join(', ')
+      : typeof value === 'number' && locale
+      ? value.toLocaleString(locale)
+      : String(value);
+
+  return {
+    ...issue,
+    message: template.replace(
+      /\{(\w+)\}/g,
+      (placeholder, name: string) =>
+        Object.hasOwn(values, name) ? format(values[name]) : placeholder,
+    ),
+  };
+}
@@ -0,0 +1,77 @@
+// @ts-nocheck - Deno imports are not recognized by TypeScript
+import { assertEquals, assertThrows } from 'jsr:@std/assert';
+import { Option } from './option.ts';
+import { Result } from './result.ts';
+import { NotFoundError } from './errors.ts';
+
+Deno.test('Option - Basic functionality', async (t) => {
+  await t.step('creates some and none', () => {
+    const some = Option.some(42);
+    const none = Option.none<number>();
+
+    assertEquals(some.isSome, true);
+    assertEquals(some.value, 42);
+    assertEquals(none.isNone, true);
+    assertThrows(() => none.value);
+  });
+
+  await t.step('fromNullable treats null and undefined as none', () => {
+    assertEquals(Option.fromNullable(null).isNone, true);
+    assertEquals(Option.fromNullable(undefined).isNone, true);
+    assertEquals(Option.fromNullable(0).value, 0);
+    assertEquals(Option.fromNullable('').isSome, true);
+  });
+
+  await t.step('is frozen', () => {
+    assertEquals(Object.isFrozen(Option.some(1)), true);
+    assertEquals(Object.isFrozen(Option.none()), true);
+  });
+});
+
+Deno.test('Option - Transformations', async (t) => {
+  await t.step('map and flatMap only run on some', () => {
+    assertEquals(Option.some(2).map((x) => x * 2).value, 4);
+    assertEquals(Option.none<number>().map((x) => x * 2).isNone, true);
+    assertEquals(Option.some(2).flatMap(() => Option.none()).isNone, true);
+    assertEquals(Option.some(2).flatMap((x) => Option.some(`${x}`)).value, '2');
+  });
+
+  await t.step('filter keeps values matching the predicate', () => {
+    assertEquals(Option.some(5).filter((x) => x > 3).value, 5);
+    assertEquals(Option.some(1).filter((x) => x > 3).isNone, true);
+  });
+
+  await t.step('match, getOrElse, getOrCall and orElse handle none', () => {
+    const none = Option.none<number>();
+
+    assertEquals(Option.some(1).match((x) => `some ${x}`, () => 'none'), 'some 1');
+    assertEquals(none.match((x) => `some ${x}`, () => 'none'), 'none');
+    assertEquals(none.getOrElse(7), 7);
+    assertEquals(none.getOrCall(() => 8), 8);
+    assertEquals(none.orElse(Option.some(9)).value, 9);
+    assertEquals(none.toNullable(), undefined);
+  });
+});
+
+Deno.test('Option - Result interop', async (t) => {
+  await t.step('toResult converts none into a failure', () => {
+    const found = Option.some('user').toResult(() => new NotFoundError('User', '1'));
+    const missing = Option.none<string>().toResult(() => new NotFoundError('User', '1'));
+
+    assertEquals(found.value, 'user');
+    assertEquals(missing.error.name, 'NotFoundError');
+  });
+
+  await t.step('Result.toOption drops the error', () => {
+    assertEquals(Result.ok<number, Error>(1).toOption().value, 1);
+    assertEquals(Result.ok<undefined, Error>(undefined).toOption().isNone, true);
+    assertEquals(Result.fail<number, Error>(new Error('e')).toOption().isNone, true);
+  });
+
+  await t.step('Result.fromNullable fails on null and undefined', () => {
+    const missing = Result.fromNullable(null, () => new NotFoundError('User'));
+
+    assertEquals(Result.fromNullable(1, () => new NotFoundError('User')).value, 1);
+    assertEquals(missing.error.name, 'NotFoundError');
+  });
+});
@@ -0,0 +1,153 @@
+import { Result } from './result.ts';
+
+/**
+ * An optional value that is either present (`some`) or absent (`none`).
+ *
+ * @remarks
+ * Use `Option` to model "missing" explicitly instead of `Result.ok(undefined)`, which can't be told
+ * apart from an operation that succeeded with nothing. Like `Result`, options are frozen and
+ * immutable, and convert to and from Results with `toResult` and `Result.toOption`.
+ */
+export class Option<out T> {
+  public readonly isSome: boolean;
+  public readonly isNone: boolean;
+  private readonly _value?: T;
+
+  private static readonly NONE: Option<never> = new Option<never>(false);
+
+  private constructor(isSome: boolean, value?: T) {
+    this.isSome = isSome;
+    this.isNone = !isSome;
+    this._value = value;
+
+    // Freeze the object to prevent modification
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates an option holding the given value
+   */
+  public static some<U>(value: U): Option<U> {
+    return new Option<U>(true, value);
+  }
+
+  /**
+   * Returns the empty option
+   */
+  public static none<U = never>(): Option<U> {
+    return Option.NONE;
+  }
+
+  /**
+   * Creates an option from a value that may be null or undefined.
+   * Both `null` and `undefined` become `none`.
+   *
+   * @example
+   * ```typescript
+   * const header = Option.fromNullable(request.headers.get('x-request-id'));
+   * ```
+   */
+  public static fromNullable<U>(value: U | null | undefined): Option<NonNullable<U>> {
+    return value === null || value === undefined
+      ? Option.none<NonNullable<U>>()
+      : Option.some(value as NonNullable<U>);
+  }
+
+  /**
+   * Returns the value
+   * @throws Error if the option is none
+   */
+  public get value(): T {
+    if (this.isNone) {
+      throw new Error('Cannot access value of an empty option');
+    }
+
+    return this._value as T;
+  }
+
+  /**
+   * Maps the value if present
+   */
+  public map<U>(f: (value: T) => U): Option<U> {
+    return this.isSome ? Option.some(f(this._value as T)) : Option.NONE;
+  }
+
+  /**
+   * Chain options together
+   */
+  public flatMap<U>(f: (value: T) => Option<U>): Option<U> {
+    return this.isSome ? f(this._value as T) : Option.NONE;
+  }
+
+  /**
+   * Keep the value only if it satisfies the predicate
+   */
+  public filter(predicate: (value: T) => boolean): Option<T> {
+    return this.isSome && predicate(this._value as T) ? this : Option.NONE;
+  }
+
+  /**
+   * Execute a side effect function if the value is present
+   */
+  public tap(f: (value: T) => void): Option<T> {
+    if (this.isSome) {
+      f(this._value as T);
+    }
+    return this;
+  }
+
+  /**
+   * Match on the option and return a value based on presence or absence
+   */
+  public match<U>(onSome: (value: T) => U, onNone: () => U): U {
+    return this.isSome ? onSome(this._value as T) : onNone();
+  }
+
+  /**
+   * Return an alternative value if the option is none
+   */
+  public getOrElse(defaultValue: T): T {
+    return this.isSome ? (this._value as T) : defaultValue;
+  }
+
+  /**
+   * Return a value computed from a function if the option is none
+   */
+  public getOrCall(f: () => T): T {
+    return this.isSome ? (this._value as T) : f();
+  }
+
+  /**
+   * Return an alternative option if this option is none
+   */
+  public orElse(alternative: Option<T>): Option<T> {
+    return this.isSome ? this : alternative;
+  }
+
+  /**
+   * Return the value, or undefined if the option is none
+   */
+  public toNullable(): T | undefined {
+    return this._value;
+  }
+
+  /**
+   * Convert the option to a Result, using the given function to create the error when it is none
+   *
+   * @example
+   * ```typescript
+   * const user = Option.fromNullable(users.get(id))
+   *   .toResult(() => new NotFoundError('User', id)); // Result<User, NotFoundError>
+   * ```
+   */
+  public toResult<E extends Error>(onNone: () => E): Result<T, E> {
+    return this.isSome ? Result.ok<T, E>(this._value as T) : Result.fail<T, E>(onNone());
+  }
+
+  /**
+   * Convert option to a JSON-serializable object
+   */
+  public toJSON(): { some: boolean; value?: T } {
+    return this.isSome ? { some: true, value: this._value as T } : { some: false };
+  }
+}
@@ -0,0 +1,143 @@
+// @ts-nocheck - Deno imports are not recognized by TypeScript
+import { assertEquals } from 'jsr:@std/assert';
+import { resilience } from './resilience.ts';
+import { CircuitBreaker } from './circuit-breaker.ts';
+import { Result } from './result.ts';
+import {
+  CircuitOpenError,
+  RejectedError,
+  RetryError,
+  TechnicalError,
+  TimeoutError,
+} from './errors.ts';
+import { fakeClock } from '../tests/fake-clock.ts';
+
+/**
+ * A function failing with a technical error a number of times before succeeding
+ */
+function flaky(failures: number): () => Result<string, TechnicalError> {
+  let calls = 0;
+  return () =>
+    ++calls <= failures ? Result.fail(new TechnicalError(`down ${calls}`)) : Result.ok('up');
+}
+
+Deno.test('resilience - Pipeline', async (t) => {
+  await t.step('executes without stages', async () => {
+    const result = await resilience().execute(() => Result.ok(42));
+
+    assertEquals(result.value, 42);
+  });
+
+  await t.step('retries and reports every attempt', async () => {
+    const events: string[] = [];
+    const policy = resilience({ clock: fakeClock() })
+      .retry({ maxAttempts: 3, delayMs: 100 })
+      .onAttempt(({ attempt, result }) => events.push(`${attempt}: ${result.isSuccess}`));
+
+    const result = await policy.execute(flaky(2));
+
+    assertEquals(result.value, 'up');
+    assertEquals(events, ['1: false', '2: false', '3: true']);
+  });
+
+  await t.step('records every attempt in the circuit breaker inside the retry', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, clock: fakeClock() });
+    const policy = resilience({ clock: fakeClock() })
+      .circuitBreaker(breaker)
+      .retry({ maxAttempts: 5 });
+
+    const result = await policy.execute(flaky(10));
+
+    // The open circuit is not retried, so only two attempts reached the dependency
+    assertEquals(breaker.state, 'open');
+    assertEquals(result.error instanceof CircuitOpenError, true);
+    assertEquals((await policy.execute(flaky(0))).error instanceof CircuitOpenError, true);
+  });
+
+  await t.step('does not retry attempts rejected by admission control', async () => {
+    const clock = fakeClock();
+    const policy = resilience({ clock })
+      .rateLimiter({ tokensPerInterval: 1, intervalMs: 60_000, maxQueue: 0, clock })
+      .retry({ maxAttempts: 3 });
+
+    assertEquals((await policy.execute(flaky(0))).value, 'up');
+    const result = await policy.execute(flaky(0));
+
+    // A retry would fail with a RetryError holding the rejection of every attempt
+    assertEquals(result.error instanceof RejectedError, true);
+    assertEquals(clock.now(), 0);
+  });
+
+  await t.step('falls back on the final failure only', async () => {
+    const attempts: number[] = [];
+    const policy = resilience({ clock: fakeClock() })
+      .fallback(() => Result.ok('cached'))
+      .retry({ maxAttempts: 2 })
+      .onAttempt(({ attempt }) => attempts.push(attempt));
+
+    const result = await policy.execute(flaky(5));
+
+    assertEquals(result.value, 'cached');
+    assertEquals(attempts, [1, 2]);
+  });
+
+  await t.step('does not fall back when cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await resilience()
+      .fallback(() => Result.ok('cached'))
+      .execute(() => Result.ok('live'), controller.signal);
+
+    assertEquals(result.isCancelled, true);
+  });
+
+  await t.step('policies are immutable and reusable', async () => {
+    const base = resilience({ clock: fakeClock() });
+    const withRetry = base.retry({ maxAttempts: 3 });
+
+    assertEquals((await base.execute(flaky(1))).isFailure, true);
+    assertEquals((await withRetry.execute(flaky(1))).value, 'up');
+    assertEquals((await withRetry.execute(flaky(1))).value, 'up');
+  });
+});
+
+Deno.test('resilience - Timeouts', async (t) => {
+  await t.step('attemptTimeout limits each attempt and is retried', async () => {
+    let calls = 0;
+    const policy = resilience()
+      .retry({ maxAttempts: 2, delayMs: 1 })
+      .attemptTimeout(5, { operation: 'fetchProfile' });
+
+    const result = await policy.execute((signal) => {
+      calls++;
+      return calls === 1
+        ? new Promise((resolve) =>
+          signal.addEventListener('abort', () => resolve(Result.ok('late')))
+        )
+        : Result.ok('fast');
+    });
+
+    assertEquals(result.value, 'fast');
+    assertEquals(calls, 2);
+  });
+
+  await t.step('timeout limits the whole execution including retries', async () => {
+    const policy = resilience()
+      .timeout(20, { operation: 'loadProfile' })
+      .retry({ maxAttempts: 100, delayMs: 5, factor: 1 });
+
+    const result = await policy.execute(() => Result.fail(new TechnicalError('down')));
+
+    assertEquals(result.error instanceof TimeoutError, true);
+    assertEquals(result.error.message.includes("'loadProfile'"), true);
+  });
+
+  await t.step('exhausted retries fail with a RetryError', async () => {
+    const result = await resilience({ clock: fakeClock() })
+      .retry({ maxAttempts: 2 })
+      .execute(flaky(5));
+
+    assertEquals(result.error instanceof RetryError, true);
+  });
+});
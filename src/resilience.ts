@@ -0,0 +1,290 @@
+import { AsyncResult } from './async-result.ts';
+import {
+  Bulkhead,
+  type BulkheadOptions,
+  RateLimiter,
+  type RateLimiterOptions,
+} from './admission-control.ts';
+import { CircuitBreaker, type CircuitBreakerOptions } from './circuit-breaker.ts';
+import { type Clock, systemClock } from './clock.ts';
+import type {
+  CancellationError,
+  CircuitOpenError,
+  RejectedError,
+  RetryError,
+  TimeoutError,
+} from './errors.ts';
+import { Result } from './result.ts';
+import { retry, type RetryPolicy } from './retry.ts';
+import { withTimeout } from './utils.ts';
+
+/**
+ * Errors a resilience policy can add to those of the executed function
+ */
+export type ResilienceError =
+  | TimeoutError
+  | RetryError
+  | CircuitOpenError
+  | RejectedError
+  | CancellationError;
+
+/**
+ * Telemetry for a single attempt of an executed function
+ */
+export interface AttemptEvent {
+  /**
+   * 1-based number of the attempt within one `execute` call
+   */
+  attempt: number;
+
+  /**
+   * How long the attempt took in milliseconds
+   */
+  durationMs: number;
+
+  /**
+   * Outcome of the attempt
+   */
+  result: Result<unknown, Error>;
+}
+
+/**
+ * The configured stages of a resilience policy
+ */
+interface Stages<F, FE extends Error> {
+  clock: Clock;
+  fallback?: (error: Error) => Result<F, FE> | PromiseLike<Result<F, FE>>;
+  timeout?: { ms: number; operation: string };
+  retry?: RetryPolicy;
+  circuitBreaker?: CircuitBreaker;
+  bulkhead?: Bulkhead;
+  rateLimiter?: RateLimiter;
+  attemptTimeout?: { ms: number; operation: string };
+  onAttempt: readonly ((event: AttemptEvent) => void)[];
+}
+
+/**
+ * A step of the pipeline, running everything inside it with the given signal
+ */
+type Step<T> = (signal: AbortSignal) => PromiseLike<Result<T, Error>>;
+
+/**
+ * A reusable combination of resilience strategies, built with `resilience()`.
+ *
+ * @remarks
+ * Stages always wrap each other in the same order, from outer to inner, no matter in which order
+ * they were configured:
+ *
+ * 1. `fallback` - replaces the final failure (but not a cancellation)
+ * 2. `timeout` - limits the whole execution, including every retry
+ * 3. `retry` - retries failed attempts according to the retry policy
+ * 4. `circuitBreaker` - fails fast while the dependency is down; every attempt is recorded
+ * 5. `bulkhead` - limits concurrent attempts
+ * 6. `rateLimiter` - limits the rate of attempts
+ * 7. `attemptTimeout` - limits a single attempt
+ *
+ * Policies are immutable: every builder method returns a new policy, so a base policy can be
+ * shared and extended. Circuit breakers, bulkheads and rate limiters keep their state across
+ * `execute` calls of the same policy.
+ *
+ * @example
+ * ```typescript
+ * const policy = resilience()
+ *   .timeout(10_000, { operation: 'loadProfile' })
+ *   .retry({ maxAttempts: 3, jitter: 'full' })
+ *   .circuitBreaker({ name: 'profiles', failureThreshold: 5 })
+ *   .attemptTimeout(2000)
+ *   .fallback(() => Result.ok(anonymousProfile))
+ *   .onAttempt(({ attempt, durationMs, result }) => metrics.record(attempt, durationMs, result));
+ *
+ * const profile = await policy.execute((signal) => fetchProfile(id, signal), request.signal);
+ * ```
+ */
+export class ResiliencePolicy<out F = never, out FE extends Error = never> {
+  private readonly _stages: Stages<F, FE>;
+
+  private constructor(stages: Stages<F, FE>) {
+    this._stages = stages;
+
+    // Freeze the object to prevent modification
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates a policy without any stages
+   *
+   * @param options Clock used by the timeouts, retries and telemetry (default: `systemClock`)
+   */
+  public static create(options: { clock?: Clock } = {}): ResiliencePolicy {
+    return new ResiliencePolicy({ clock: options.clock ?? systemClock, onAttempt: [] });
+  }
+
+  /**
+   * Limits the whole execution, including every retry
+   */
+  public timeout(ms: number, options: { operation?: string } = {}): ResiliencePolicy<F, FE> {
+    return this.with({ timeout: { ms, operation: options.operation ?? 'operation' } });
+  }
+
+  /**
+   * Retries failed attempts according to the retry policy
+   */
+  public retry(policy: Omit<RetryPolicy, 'signal'> = {}): ResiliencePolicy<F, FE> {
+    return this.with({ retry: { clock: this._stages.clock, ...policy } });
+  }
+
+  /**
+   * Protects attempts with a circuit breaker. Pass a breaker instance to share it with other code.
+   */
+  public circuitBreaker(
+    breaker: CircuitBreaker | CircuitBreakerOptions = {},
+  ): ResiliencePolicy<F, FE> {
+    return this.with({
+      circuitBreaker: breaker instanceof CircuitBreaker
+        ? breaker
+        : new CircuitBreaker({ clock: this._stages.clock, ...breaker }),
+    });
+  }
+
+  /**
+   * Limits concurrent attempts. Pass a bulkhead instance to share it with other code.
+   */
+  public bulkhead(bulkhead: Bulkhead | BulkheadOptions = {}): ResiliencePolicy<F, FE> {
+    return this.with({
+      bulkhead: bulkhead instanceof Bulkhead ? bulkhead : new Bulkhead(bulkhead),
+    });
+  }
+
+  /**
+   * Limits the rate of attempts. Pass a rate limiter instance to share it with other code.
+   */
+  public rateLimiter(limiter: RateLimiter | RateLimiterOptions): ResiliencePolicy<F, FE> {
+    return this.with({
+      rateLimiter: limiter instanceof RateLimiter
+        ? limiter
+        : new RateLimiter({ clock: this._stages.clock, ...limiter }),
+    });
+  }
+
+  /**
+   * Limits each single attempt
+   */
+  public attemptTimeout(ms: number, options: { operation?: string } = {}): ResiliencePolicy<F, FE> {
+    return this.with({ attemptTimeout: { ms, operation: options.operation ?? 'operation' } });
+  }
+
+  /**
+   * Replaces the final failure with the result of the given function.
+   * Cancelled executions are not replaced.
+   */
+  public fallback<U, E2 extends Error = never>(
+    f: (error: Error) => Result<U, E2> | PromiseLike<Result<U, E2>>,
+  ): ResiliencePolicy<U, E2> {
+    return new ResiliencePolicy<U, E2>({ ...this._stages, fallback: f });
+  }
+
+  /**
+   * Adds a hook called after every attempt with its number, duration and result
+   */
+  public onAttempt(hook: (event: AttemptEvent) => void): ResiliencePolicy<F, FE> {
+    return this.with({ onAttempt: [...this._stages.onAttempt, hook] });
+  }
+
+  /**
+   * Executes the function with every configured stage
+   *
+   * @param fn Function to execute, receiving a signal aborted when its attempt is abandoned
+   * @param signal Optional AbortSignal cancelling the whole execution
+   * @returns AsyncResult of the execution
+   */
+  public execute<T, E extends Error>(
+    fn: (signal: AbortSignal) => Result<T, E> | PromiseLike<Result<T, E>>,
+    signal?: AbortSignal,
+  ): AsyncResult<T | F, E | FE | ResilienceError> {
+    const stages = this._stages;
+    let attempt = 0;
+
+    let step: Step<T> = (stepSignal) => this.attempt(fn, stepSignal, ++attempt);
+
+    const { rateLimiter, bulkhead, circuitBreaker, retry: retryPolicy, timeout } = stages;
+    if (rateLimiter) {
+      const inner = step;
+      step = (stepSignal) => rateLimiter.run(inner, { signal: stepSignal });
+    }
+    if (bulkhead) {
+      const inner = step;
+      step = (stepSignal) => bulkhead.run(inner, { signal: stepSignal });
+    }
+    if (circuitBreaker) {
+      const inner = step;
+      step = (stepSignal) => circuitBreaker.call(() => inner(stepSignal));
+    }
+    if (retryPolicy) {
+      const inner = step;
+      step = (stepSignal) => retry(() => inner(stepSignal), { ...retryPolicy, signal: stepSignal });
+    }
+    if (timeout) {
+      const inner = step;
+      step = (stepSignal) =>
+        withTimeout(inner, timeout.ms, {
+          operation: timeout.operation,
+          signal: stepSignal,
+          clock: stages.clock,
+        });
+    }
+
+    const executed = Result.ok<undefined, Error>(undefined)
+      .toAsync(signal)
+      .flatMap((_, stepSignal) => step(stepSignal));
+
+    const { fallback } = stages;
+    return AsyncResult.from(
+      fallback
+        ? executed.then((result) =>
+          result.isSuccess || result.isCancelled ? result : fallback(result.error)
+        )
+        : executed,
+      signal,
+    ) as AsyncResult<T | F, E | FE | ResilienceError>;
+  }
+
+  /**
+   * Runs a single attempt with the attempt timeout and reports it to the telemetry hooks
+   */
+  private async attempt<T, E extends Error>(
+    fn: (signal: AbortSignal) => Result<T, E> | PromiseLike<Result<T, E>>,
+    signal: AbortSignal,
+    attempt: number,
+  ): Promise<Result<T, E | TimeoutError>> {
+    const { clock, attemptTimeout, onAttempt } = this._stages;
+    const start = clock.now();
+
+    const result =
+      await (attemptTimeout
+        ? withTimeout(fn, attemptTimeout.ms, { operation: attemptTimeout.operation, signal, clock })
+        : Result.ok<undefined, E>(undefined).toAsync(signal).flatMap((_, stepSignal) =>
+          fn(stepSignal)
+        ));
+
+    for (const hook of onAttempt) {
+      hook({ attempt, durationMs: clock.now() - start, result });
+    }
+    return result;
+  }
+
+  /**
+   * Returns a copy of the policy with some stages replaced
+   */
+  private with(stages: Partial<Stages<F, FE>>): ResiliencePolicy<F, FE> {
+    return new ResiliencePolicy<F, FE>({ ...this._stages, ...stages });
+  }
+}
+
+/**
+ * Starts building a resilience policy
+ *
+ * @param options Clock used by the timeouts, retries and telemetry (default: `systemClock`)
+ */
+export function resilience(options: { clock?: Clock } = {}): ResiliencePolicy {
+  return ResiliencePolicy.create(options);
+}
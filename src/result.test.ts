@@ -1,7 +1,14 @@
 // @ts-nocheck - Deno imports are not recognized by TypeScript
 import { assertEquals, assertThrows } from 'jsr:@std/assert';
 import { Result } from './result.ts';
-import { TechnicalError, ValidationError } from './errors.ts';
+import {
+  CancellationError,
+  CompositeError,
+  NotFoundError,
+  TechnicalError,
+  TimeoutError,
+  ValidationError,
+} from './errors.ts';
 
 const { test: _test } = Deno;
 
@@ -31,6 +38,23 @@ Deno.test('Result - Basic functionality', async (t) => {
     assertThrows(() => result.error);
   });
 
+  await t.step('isOk and isErr narrow the result', () => {
+    const success = Result.ok<number, Error>(42);
+    const failure = Result.fail<number, Error>(new Error('Error'));
+
+    assertEquals(success.isOk(), true);
+    assertEquals(success.isErr(), false);
+    assertEquals(failure.isOk(), false);
+    assertEquals(failure.isErr(), true);
+
+    if (success.isOk()) {
+      assertEquals(success.value, 42);
+    }
+    if (failure.isErr()) {
+      assertEquals(failure.error.message, 'Error');
+    }
+  });
+
   await t.step('creates a cancelled result', () => {
     const result = Result.cancelled<number, Error>();
     assertEquals(result.isSuccess, false);
@@ -71,6 +95,15 @@ Deno.test('Result - Mapping and chaining', async (t) => {
     assertEquals(flatMapped.value, 'Value: 42');
   });
 
+  await t.step('flatMap chains steps with different error types', () => {
+    const result = Result.ok<number, TechnicalError>(42)
+      .flatMap((x) => Result.ok<number, ValidationError>(x + 1))
+      .flatMap((x) => Result.fail<string, ValidationError>(new ValidationError(`Bad ${x}`)));
+
+    assertEquals(result.isFailure, true);
+    assertEquals(result.error.message, 'Validation Error: Bad 43');
+  });
+
   await t.step('flatMap returns failure on failure', () => {
     const error = new Error('Error');
     const result = Result.fail<number, Error>(error);
@@ -344,6 +377,129 @@ Deno.test('Result - Conversion and serialization', async (t) => {
   });
 });
 
+Deno.test('Result - Matching on error classes', async (t) => {
+  const handlers = {
+    NotFoundError: (e) => `missing: ${e.message}`,
+    ValidationError: (e) => `invalid: ${e.message}`,
+    TechnicalError: (e) => `technical: ${e.name}`,
+  };
+
+  await t.step('matchError calls onSuccess for a success', () => {
+    const result = Result.ok<number, NotFoundError>(42);
+    assertEquals(result.matchError((value) => `value: ${value}`, handlers), 'value: 42');
+  });
+
+  await t.step('matchError dispatches on the error name', () => {
+    const notFound = Result.fail<number, NotFoundError>(new NotFoundError('User', '1'));
+    const invalid = Result.fail<number, ValidationError>(new ValidationError('Bad input'));
+
+    assertEquals(
+      notFound.matchError(() => '', handlers),
+      "missing: Not Found: User with id '1' could not be found",
+    );
+    assertEquals(invalid.matchError(() => '', handlers), 'invalid: Validation Error: Bad input');
+  });
+
+  await t.step('matchError falls back to the closest parent class handler', () => {
+    const timedOut = Result.fail<number, TechnicalError>(new TimeoutError('fetch', 100));
+    assertEquals(timedOut.matchError(() => '', handlers), 'technical: TimeoutError');
+  });
+
+  await t.step('matchError uses the _ fallback for unnamed errors', () => {
+    const result = Result.fail<number, Error>(new Error('plain'));
+    assertEquals(result.matchError(() => '', { _: (e) => e.message }), 'plain');
+  });
+
+  await t.step('matchError throws when no handler matches', () => {
+    const result = Result.cancelled<number, NotFoundError>('op');
+    assertThrows(() => result.matchError(() => '', { NotFoundError: () => '' }), TypeError);
+  });
+
+  await t.step('recoverWhen only recovers the given error class', () => {
+    const notFound = Result.fail<number, NotFoundError | ValidationError>(
+      new NotFoundError('User'),
+    );
+    const invalid = Result.fail<number, NotFoundError | ValidationError>(
+      new ValidationError('Bad input'),
+    );
+
+    const recovered = notFound.recoverWhen(NotFoundError, () => Result.ok(0));
+    const untouched = invalid.recoverWhen(NotFoundError, () => Result.ok(0));
+
+    assertEquals(recovered.value, 0);
+    assertEquals(untouched.error.name, 'ValidationError');
+  });
+
+  await t.step('recoverWhen matches subclasses', () => {
+    const cancelled = Result.cancelled<number, Error>('op');
+    const recovered = cancelled.recoverWhen(TechnicalError, (e) => Result.ok(e.message.length));
+
+    assertEquals(recovered.isSuccess, true);
+    assertEquals(cancelled.error instanceof CancellationError, true);
+  });
+});
+
+Deno.test('Result - Combining results', async (t) => {
+  await t.step('all combines a tuple keeping each position', () => {
+    const result = Result.all([Result.ok(1), Result.ok('two'), Result.ok(true)]);
+
+    assertEquals(result.isSuccess, true);
+    assertEquals(result.value, [1, 'two', true]);
+  });
+
+  await t.step('all combines a record keeping each key', () => {
+    const result = Result.all({ user: Result.ok({ id: '1' }), perms: Result.ok(['read']) });
+
+    assertEquals(result.value, { user: { id: '1' }, perms: ['read'] });
+  });
+
+  await t.step('all returns the first failure in order', () => {
+    const tuple = Result.all([
+      Result.ok(1),
+      Result.fail(new NotFoundError('User', '1')),
+      Result.fail(new ValidationError('Bad input')),
+    ]);
+    const record = Result.all({
+      a: Result.ok(1),
+      b: Result.fail(new ValidationError('Bad input')),
+    });
+
+    assertEquals(tuple.error.name, 'NotFoundError');
+    assertEquals(record.error.name, 'ValidationError');
+  });
+
+  await t.step('all keeps the cancellation state of the failure', () => {
+    const result = Result.all([Result.ok(1), Result.cancelled('op')]);
+
+    assertEquals(result.isCancelled, true);
+  });
+
+  await t.step('any returns the first success', () => {
+    const result = Result.any([
+      Result.fail(new Error('first')),
+      Result.ok(2),
+      Result.ok(3),
+    ]);
+
+    assertEquals(result.value, 2);
+  });
+
+  await t.step('any collects every error when nothing succeeds', () => {
+    const result = Result.any([
+      Result.fail(new NotFoundError('User', '1')),
+      Result.fail(new ValidationError('Bad input')),
+    ]);
+    const empty = Result.any([]);
+
+    assertEquals(result.error instanceof CompositeError, true);
+    assertEquals(result.error.errors.map((error) => error.name), [
+      'NotFoundError',
+      'ValidationError',
+    ]);
+    assertEquals(empty.error.errors, []);
+  });
+});
+
 // Advanced test cases
 Deno.test('Result - Integration scenarios', async (t) => {
   await t.step('chaining multiple operations', () => {
@@ -429,3 +585,107 @@ Deno.test('Result - Edge cases', async (t) => {
     assertEquals(json.error?.name, 'CancellationError');
   });
 });
+
+Deno.test('Result - Generator do-notation', async (t) => {
+  await t.step('unwraps successful steps', () => {
+    const result = Result.gen(function* (): Generator<Result<never, Error>, number> {
+      const a = yield* Result.ok<number, Error>(20);
+      const b = yield* Result.ok<number, Error>(22);
+      return a + b;
+    });
+
+    assertEquals(result.isSuccess, true);
+    assertEquals(result.value, 42);
+  });
+
+  await t.step('short-circuits on the first failure', () => {
+    let reachedEnd = false;
+    let cleanedUp = false;
+    const error = new ValidationError('Invalid step');
+
+    const result = Result.gen(function* (): Generator<Result<never, Error>, number> {
+      try {
+        const a = yield* Result.ok<number, Error>(1);
+        yield* Result.fail<number, ValidationError>(error);
+        reachedEnd = true;
+        return a;
+      } finally {
+        cleanedUp = true;
+      }
+    });
+
+    assertEquals(result.isFailure, true);
+    assertEquals(result.error, error);
+    assertEquals(reachedEnd, false);
+    assertEquals(cleanedUp, true);
+  });
+
+  await t.step('keeps the cancelled state of a yielded failure', () => {
+    const result = Result.gen(function* (): Generator<Result<never, Error>, number> {
+      return yield* Result.cancelled<number, Error>('op-1');
+    });
+
+    assertEquals(result.isCancelled, true);
+  });
+
+  await t.step('is stack-safe for long loops', () => {
+    const result = Result.gen(function* (): Generator<Result<never, Error>, number> {
+      let total = 0;
+      for (let i = 0; i < 100_000; i++) {
+        total += yield* Result.ok<number, Error>(1);
+      }
+      return total;
+    });
+
+    assertEquals(result.value, 100_000);
+  });
+
+  await t.step('genAsync unwraps Results and AsyncResults', async () => {
+    const result = await Result.genAsync(
+      async function* (): AsyncGenerator<Result<never, Error>, number> {
+        const a = yield* Result.ok<number, Error>(20);
+        const b = yield* Result.fromPromise(Promise.resolve(21));
+        const c = yield* await Promise.resolve(Result.ok<number, Error>(1));
+        return a + b + c;
+      },
+    );
+
+    assertEquals(result.value, 42);
+  });
+
+  await t.step('genAsync short-circuits and converts throws into failures', async () => {
+    const failed = await Result.genAsync(
+      async function* (): AsyncGenerator<Result<never, Error>, number> {
+        yield* Result.fromPromise(Promise.reject(new Error('rejected')));
+        return 1;
+      },
+    );
+    const thrown = await Result.genAsync(
+      async function* (): AsyncGenerator<Result<never, Error>, number> {
+        yield* Result.ok<number, Error>(1);
+        throw new Error('thrown');
+      },
+    );
+
+    assertEquals(failed.error.message, 'rejected');
+    assertEquals(thrown.error.message, 'thrown');
+  });
+
+  await t.step('genAsync stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    let steps = 0;
+
+    const result = await Result.genAsync(
+      async function* (): AsyncGenerator<Result<never, Error>, number> {
+        yield* Result.ok<number, Error>(steps++);
+        controller.abort();
+        yield* Result.ok<number, Error>(steps++);
+        yield* Result.ok<number, Error>(steps++);
+        return steps;
+      },
+      controller.signal,
+    );
+
+    assertEquals(result.isCancelled, true);
+  });
+});
@@ -1,4 +1,44 @@
-import { CancellationError } from './errors.ts';
+import { AsyncResult, type TimeoutErrorOf, type TimeoutOptions } from './async-result.ts';
+import { CancellationError, CompositeError } from './errors.ts';
+import { type ErrorClass, type ErrorHandlers, findErrorHandler } from './error-match.ts';
+import { Option } from './option.ts';
+
+/**
+ * Extracts the error type from a Result type (or a union of Result types)
+ */
+export type InferError<R> = R extends Result<unknown, infer E> ? E : never;
+
+/**
+ * Extracts the success type from a Result type (or a union of Result types)
+ */
+export type InferValue<R> = R extends Result<infer T, Error> ? T : never;
+
+/**
+ * Maps a tuple, array or record of Results to the same shape holding their success values
+ */
+export type ResultValues<R> = { -readonly [K in keyof R]: InferValue<R[K]> };
+
+/**
+ * A Result narrowed to its success case with `isOk()`.
+ * Reading `value` is statically safe, while `error` is typed as `never` so using it is a type error.
+ */
+export type Ok<T, E extends Error> = Result<T, E> & {
+  readonly isSuccess: true;
+  readonly isFailure: false;
+  readonly value: T;
+  readonly error: never;
+};
+
+/**
+ * A Result narrowed to its failure case with `isErr()`.
+ * Reading `error` is statically safe, while `value` is typed as `never` so using it is a type error.
+ */
+export type Err<T, E extends Error> = Result<T, E> & {
+  readonly isSuccess: false;
+  readonly isFailure: true;
+  readonly value: never;
+  readonly error: E;
+};
 
 /**
  * A generic result class for handling success and failure outcomes
@@ -9,7 +49,7 @@ import { CancellationError } from './errors.ts';
  * when chaining too many operations. For deeply nested structures, consider
  * using iterative approaches or limiting recursion depth.
  */
-export class Result<T, E extends Error> {
+export class Result<out T, out E extends Error> {
   public readonly isSuccess: boolean;
   public readonly isFailure: boolean;
   private readonly _value?: T;
@@ -30,14 +70,14 @@ export class Result<T, E extends Error> {
   /**
    * Creates a success result with the given value
    */
-  public static ok<U, E extends Error>(value?: U): Result<U, E> {
+  public static ok<U, E extends Error = never>(value?: U): Result<U, E> {
     return new Result<U, E>(true, undefined, value);
   }
 
   /**
    * Creates a failure result with the given error
    */
-  public static fail<U, E extends Error>(error: E): Result<U, E> {
+  public static fail<U = never, E extends Error = Error>(error: E): Result<U, E> {
     return new Result<U, E>(false, error);
   }
 
@@ -54,6 +94,88 @@ export class Result<T, E extends Error> {
     );
   }
 
+  /**
+   * Runs a generator as sequential "do-notation" over Results.
+   * Each `yield*` unwraps a successful Result or short-circuits with the first failure.
+   * The error type is the union of every error that can be yielded, and the steps are
+   * driven by a loop, so long-running generators don't grow the stack.
+   *
+   * @example
+   * ```typescript
+   * const total = Result.gen(function* () {
+   *   const user = yield* findUser(id); // Result<User, NotFoundError>
+   *   const order = yield* createOrder(user); // Result<Order, ValidationError>
+   *   return order.total;
+   * }); // Result<number, NotFoundError | ValidationError>
+   * ```
+   */
+  public static gen<Y extends Result<never, Error>, T>(
+    f: () => Generator<Y, T, unknown>,
+  ): Result<T, InferError<Y>> {
+    const iterator = f();
+    let step = iterator.next();
+
+    while (!step.done) {
+      const yielded = step.value as unknown as Result<unknown, InferError<Y>>;
+      if (yielded.isFailure) {
+        // Let the generator run its finally blocks before short-circuiting
+        iterator.return(undefined as T);
+        return yielded.propagate<T>();
+      }
+      step = iterator.next(yielded._value);
+    }
+
+    return Result.ok<T, InferError<Y>>(step.value);
+  }
+
+  /**
+   * Async variant of `gen` for workflows with async steps.
+   * Both `Result` and `AsyncResult` can be unwrapped with `yield*`; awaited promises of Results
+   * can be unwrapped with `yield* await`. When the AbortSignal is aborted, the generator is
+   * stopped before its next step and the result is cancelled.
+   *
+   * @example
+   * ```typescript
+   * const total = await Result.genAsync(async function* () {
+   *   const user = yield* Result.fromPromise(fetchUser(id));
+   *   const order = yield* await createOrderAsync(user);
+   *   return order.total;
+   * }, controller.signal);
+   * ```
+   */
+  public static genAsync<Y extends Result<never, Error>, T>(
+    f: () => AsyncGenerator<Y, T, unknown>,
+    abortSignal?: AbortSignal,
+  ): AsyncResult<T, InferError<Y>> {
+    const run = async (): Promise<Result<T, InferError<Y>>> => {
+      const iterator = f();
+
+      if (abortSignal?.aborted) {
+        await iterator.return(undefined as T);
+        return Result.cancelled<T, InferError<Y>>('Operation was aborted');
+      }
+
+      let step = await iterator.next();
+
+      while (!step.done) {
+        const yielded = step.value as unknown as Result<unknown, InferError<Y>>;
+        if (yielded.isFailure) {
+          await iterator.return(undefined as T);
+          return yielded.propagate<T>();
+        }
+        if (abortSignal?.aborted) {
+          await iterator.return(undefined as T);
+          return Result.cancelled<T, InferError<Y>>('Operation was aborted');
+        }
+        step = await iterator.next(yielded._value);
+      }
+
+      return Result.ok<T, InferError<Y>>(step.value);
+    };
+
+    return AsyncResult.from(run(), abortSignal);
+  }
+
   /**
    * Checks if the result represents a cancelled operation.
    * Useful for distinguishing between normal failures and cancellations.
@@ -63,7 +185,44 @@ export class Result<T, E extends Error> {
   }
 
   /**
-   * Returns the success value
+   * Makes the result usable with `yield*` inside `Result.gen`.
+   * The result yields itself and receives its value back from the driving loop.
+   */
+  public *[Symbol.iterator](): Generator<Result<never, E>, T, unknown> {
+    return (yield this as unknown as Result<never, E>) as T;
+  }
+
+  /**
+   * Type guard that narrows the result to its success case
+   *
+   * @example
+   * ```typescript
+   * if (result.isOk()) {
+   *   console.log(result.value); // statically safe
+   * }
+   * ```
+   */
+  public isOk(): this is Ok<T, E> {
+    return this.isSuccess;
+  }
+
+  /**
+   * Type guard that narrows the result to its failure case
+   *
+   * @example
+   * ```typescript
+   * if (result.isErr()) {
+   *   console.error(result.error.message); // statically safe
+   * }
+   * ```
+   */
+  public isErr(): this is Err<T, E> {
+    return this.isFailure;
+  }
+
+  /**
+   * Returns the success value.
+   * Prefer narrowing with `isOk()` first so the access is checked at compile time.
    * @throws Error if the result is a failure
    */
   public get value(): T {
@@ -75,7 +234,8 @@ export class Result<T, E extends Error> {
   }
 
   /**
-   * Returns the error
+   * Returns the error.
+   * Prefer narrowing with `isErr()` first so the access is checked at compile time.
    * @throws Error if the result is a success
    */
   public get error(): E {
@@ -91,7 +251,7 @@ export class Result<T, E extends Error> {
    */
   public map<U>(f: (value: T) => U): Result<U, E> {
     if (this.isFailure) {
-      return Result.fail<U, E>(this._error as E);
+      return this.propagate<U>();
     }
     return Result.ok<U, E>(f(this._value as T));
   }
@@ -108,10 +268,12 @@ export class Result<T, E extends Error> {
 
   /**
    * Chain results together.
+   * The error type widens to include the continuation's errors, so a pipeline's type lists
+   * every error that can come out of it.
    */
-  public flatMap<U>(f: (value: T) => Result<U, E>): Result<U, E> {
+  public flatMap<U, E2 extends Error = E>(f: (value: T) => Result<U, E2>): Result<U, E | E2> {
     if (this.isFailure) {
-      return Result.fail<U, E>(this._error as E);
+      return this.propagate<U>();
     }
     return f(this._value as T);
   }
@@ -146,6 +308,53 @@ export class Result<T, E extends Error> {
     return onFailure(this._error as E);
   }
 
+  /**
+   * Match on the result with a separate handler for each error in the error union.
+   * Handlers are keyed by error name (e.g. `NotFoundError`) and checked for exhaustiveness;
+   * a `_` fallback is required when the union contains errors without a known name.
+   *
+   * @example
+   * ```typescript
+   * const status = findUser(id) // Result<User, NotFoundError | ValidationError>
+   *   .matchError((user) => 200, {
+   *     NotFoundError: () => 404,
+   *     ValidationError: () => 400,
+   *   });
+   * ```
+   */
+  public matchError<U, R extends Result<T, Error>>(
+    this: R,
+    onSuccess: (value: T) => U,
+    handlers: ErrorHandlers<InferError<R>, U>,
+  ): U {
+    if (this.isSuccess) {
+      return onSuccess(this.value);
+    }
+    const error = this.error as InferError<R>;
+    return findErrorHandler(error, handlers)(error);
+  }
+
+  /**
+   * Recover only from errors of the given class (including its subclasses).
+   * Other errors are left untouched and stay in the failure type.
+   *
+   * @example
+   * ```typescript
+   * const user = findUser(id) // Result<User, NotFoundError | UnauthorizedError>
+   *   .recoverWhen(NotFoundError, () => Result.ok(guestUser));
+   * // Result<User, UnauthorizedError>
+   * ```
+   */
+  public recoverWhen<C extends ErrorClass, E2 extends Error = never>(
+    errorClass: C,
+    f: (error: InstanceType<C>) => Result<T, E2>,
+  ): Result<T, Exclude<E, InstanceType<C>> | E2> {
+    if (this.isFailure && this._error instanceof errorClass) {
+      return f(this._error as InstanceType<C>);
+    }
+    return this as unknown as Result<T, Exclude<E, InstanceType<C>>>;
+  }
+
   /**
    * Return an alternative value if the result is a failure
    */
@@ -161,11 +370,12 @@ export class Result<T, E extends Error> {
   }
 
   /**
-   * Try to recover from an error by applying a function that returns a new result
+   * Try to recover from an error by applying a function that returns a new result.
+   * The original error is handled, so the error type becomes the recovery's error type.
    */
-  public recover(f: (error: E) => Result<T, E>): Result<T, E> {
+  public recover<E2 extends Error = E>(f: (error: E) => Result<T, E2>): Result<T, E2> {
     if (this.isSuccess) {
-      return this;
+      return this as unknown as Result<T, E2>;
     }
     return f(this._error as E);
   }
@@ -180,132 +390,58 @@ export class Result<T, E extends Error> {
     return Promise.reject(this._error);
   }
 
+  /**
+   * Convert the result to an Option, discarding the error.
+   * A success becomes `some` (or `none` when the value is null or undefined).
+   */
+  public toOption(): Option<NonNullable<T>> {
+    return this.isSuccess ? Option.fromNullable(this._value) : Option.none<NonNullable<T>>();
+  }
+
+  /**
+   * Converts this result into an AsyncResult so it can be chained with async operations.
+   *
+   * @param abortSignal - Optional AbortSignal carried through the resulting chain
+   */
+  public toAsync(abortSignal?: AbortSignal): AsyncResult<T, E> {
+    return AsyncResult.from(this, abortSignal);
+  }
+
   /**
    * Asynchronously maps the result value if successful.
    * Allows transforming the value using a function that returns a Promise.
    *
    * @param f - Async function to transform the value
    * @param abortSignal - Optional AbortSignal to cancel the operation
+   * @param timeout - Optional time limit, after which the result fails with a TimeoutError
    */
-  public async asyncMap<U>(
-    f: (value: T) => Promise<U>,
+  public asyncMap<U, O extends TimeoutOptions | undefined = undefined>(
+    f: (value: T, signal: AbortSignal) => U | PromiseLike<U>,
     abortSignal?: AbortSignal,
-  ): Promise<Result<U, E>> {
-    if (this.isFailure) {
-      return Result.fail<U, E>(this._error as E);
-    }
-
-    try {
-      // If the operation is already aborted, return a cancelled result
-      if (abortSignal?.aborted) {
-        return Result.cancelled<U, E>('Operation was aborted');
-      }
-
-      // Create a promise that can be cancelled
-      const resultPromise = f(this._value as T);
-
-      // If the signal is provided, handle cancellation
-      if (abortSignal) {
-        // Create a promise that rejects if the signal is aborted
-        const abortPromise = new Promise<U>((_, reject) => {
-          abortSignal.addEventListener(
-            'abort',
-            () => {
-              reject(new Error('Operation aborted'));
-            },
-            { once: true },
-          );
-        });
-
-        // Race the result promise against the abort promise
-        try {
-          const value = await Promise.race([resultPromise, abortPromise]);
-          return Result.ok<U, E>(value);
-        } catch (error: unknown) {
-          if (abortSignal.aborted) {
-            return Result.cancelled<U, E>('Operation was aborted');
-          }
-          return Result.fail<U, E>(
-            error instanceof Error
-              ? (error as E)
-              : (new Error(typeof error === 'string' ? error : String(error)) as E),
-          );
-        }
-      }
-
-      // If no signal is provided, just await the result
-      const mappedValue = await resultPromise;
-      return Result.ok<U, E>(mappedValue);
-    } catch (error: unknown) {
-      return Result.fail<U, E>(
-        error instanceof Error
-          ? (error as E)
-          : (new Error(typeof error === 'string' ? error : String(error)) as E),
-      );
-    }
+    timeout?: O,
+  ): AsyncResult<U, E | TimeoutErrorOf<O>> {
+    return this.toAsync(abortSignal).map(f, timeout);
   }
 
   /**
    * Asynchronously chain results together.
    * Allows chaining with a function that returns a Promise<Result>.
+   * Like `flatMap`, the error type widens to include the continuation's errors.
    *
    * @param f - Async function to transform the value
    * @param abortSignal - Optional AbortSignal to cancel the operation
+   * @param timeout - Optional time limit, after which the result fails with a TimeoutError
    */
-  public async asyncFlatMap<U>(
-    f: (value: T) => Promise<Result<U, E>>,
+  public asyncFlatMap<
+    U,
+    E2 extends Error = E,
+    O extends TimeoutOptions | undefined = undefined,
+  >(
+    f: (value: T, signal: AbortSignal) => Result<U, E2> | PromiseLike<Result<U, E2>>,
     abortSignal?: AbortSignal,
-  ): Promise<Result<U, E>> {
-    if (this.isFailure) {
-      return Result.fail<U, E>(this._error as E);
-    }
-
-    try {
-      // If the operation is already aborted, return a cancelled result
-      if (abortSignal?.aborted) {
-        return Result.cancelled<U, E>('Operation was aborted');
-      }
-
-      // Create a promise that can be cancelled
-      const resultPromise = f(this._value as T);
-
-      // If the signal is provided, handle cancellation
-      if (abortSignal) {
-        // Create a promise that rejects if the signal is aborted
-        const abortPromise = new Promise<Result<U, E>>((_, reject) => {
-          abortSignal.addEventListener(
-            'abort',
-            () => {
-              reject(new Error('Operation aborted'));
-            },
-            { once: true },
-          );
-        });
-
-        // Race the result promise against the abort promise
-        try {
-          return await Promise.race([resultPromise, abortPromise]);
-        } catch (error: unknown) {
-          if (abortSignal.aborted) {
-            return Result.cancelled<U, E>('Operation was aborted');
-          }
-          return Result.fail<U, E>(
-            error instanceof Error
-              ? (error as E)
-              : (new Error(typeof error === 'string' ? error : String(error)) as E),
-          );
-        }
-      }
-
-      // If no signal is provided, just await the result
-      return await resultPromise;
-    } catch (error: unknown) {
-      return Result.fail<U, E>(
-        error instanceof Error
-          ? (error as E)
-          : (new Error(typeof error === 'string' ? error : String(error)) as E),
-      );
-    }
+    timeout?: O,
+  ): AsyncResult<U, E | E2 | TimeoutErrorOf<O>> {
+    return this.toAsync(abortSignal).flatMap(f, timeout);
   }
 
   /**
@@ -338,60 +474,37 @@ export class Result<T, E extends Error> {
   }
 
   /**
-   * Create a Result from a Promise with cancellation support
+   * Create a Result from a Promise with cancellation support.
+   * The returned AsyncResult can be awaited or chained directly.
    *
    * @param promise The promise to convert to a Result
    * @param abortSignal Optional AbortSignal to support cancellation
    */
-  public static async fromPromise<U>(
-    promise: Promise<U>,
+  public static fromPromise<U>(
+    promise: PromiseLike<U>,
     abortSignal?: AbortSignal,
-  ): Promise<Result<U, Error>> {
-    try {
-      // If already aborted, return a cancelled result
-      if (abortSignal?.aborted) {
-        return Result.cancelled<U, Error>('Operation was aborted');
-      }
-
-      // If an abort signal is provided
-      if (abortSignal) {
-        // Create a promise that rejects when the signal is aborted
-        const abortPromise = new Promise<U>((_, reject) => {
-          abortSignal.addEventListener(
-            'abort',
-            () => {
-              reject(new Error('Operation aborted'));
-            },
-            { once: true },
-          );
-        });
-
-        // Race the original promise with the abort promise
-        try {
-          const result = await Promise.race([promise, abortPromise]);
-          return Result.ok<U, Error>(result);
-        } catch (error: unknown) {
-          if (abortSignal.aborted) {
-            return Result.cancelled<U, Error>('Operation was aborted');
-          }
-          return Result.fail<U, Error>(
-            error instanceof Error
-              ? error
-              : new Error(typeof error === 'string' ? error : String(error)),
-          );
-        }
-      }
+  ): AsyncResult<U, Error> {
+    return AsyncResult.fromPromise(promise, abortSignal);
+  }
 
-      // No abort signal, just handle the promise normally
-      const value = await promise;
-      return Result.ok<U, Error>(value);
-    } catch (error: unknown) {
-      return Result.fail<U, Error>(
-        error instanceof Error
-          ? error
-          : new Error(typeof error === 'string' ? error : String(error)),
-      );
-    }
+  /**
+   * Create a Result from a value that may be null or undefined
+   *
+   * @param value The value to check
+   * @param onNull Function creating the error when the value is null or undefined
+   *
+   * @example
+   * ```typescript
+   * const user = Result.fromNullable(users.get(id), () => new NotFoundError('User', id));
+   * ```
+   */
+  public static fromNullable<U, E extends Error>(
+    value: U | null | undefined,
+    onNull: () => E,
+  ): Result<NonNullable<U>, E> {
+    return value === null || value === undefined
+      ? Result.fail<NonNullable<U>, E>(onNull())
+      : Result.ok<NonNullable<U>, E>(value as NonNullable<U>);
   }
 
   /**
@@ -408,4 +521,80 @@ export class Result<T, E extends Error> {
       );
     }
   }
+
+  /**
+   * Combines a tuple, array or record of Results into a single Result of the same shape.
+   * Each position keeps its own value type, and the first failure (in order) is returned.
+   *
+   * @example
+   * ```typescript
+   * const pair = Result.all([findUser(id), loadSettings(id)]); // Result<[User, Settings], ...>
+   * const page = Result.all({ user: findUser(id), perms: loadPermissions(id) });
+   * page.map(({ user, perms }) => render(user, perms));
+   * ```
+   */
+  public static all<const R extends readonly Result<unknown, Error>[]>(
+    results: R,
+  ): Result<ResultValues<R>, InferError<R[number]>>;
+  public static all<R extends Readonly<Record<string, Result<unknown, Error>>>>(
+    results: R,
+  ): Result<ResultValues<R>, InferError<R[keyof R]>>;
+  public static all(
+    results: readonly Result<unknown, Error>[] | Readonly<Record<string, Result<unknown, Error>>>,
+  ): Result<unknown, Error> {
+    if (Array.isArray(results)) {
+      const values: unknown[] = [];
+      for (const result of results as readonly Result<unknown, Error>[]) {
+        if (result.isFailure) {
+          return result;
+        }
+        values.push(result._value);
+      }
+      return Result.ok(values);
+    }
+
+    const values: Record<string, unknown> = {};
+    for (const [key, result] of Object.entries(results)) {
+      if (result.isFailure) {
+        return result;
+      }
+      values[key] = result._value;
+    }
+    return Result.ok(values);
+  }
+
+  /**
+   * Returns the first successful Result, or a failure with a `CompositeError` holding every
+   * error (in order) when none of them succeeded
+   *
+   * @example
+   * ```typescript
+   * const config = Result.any([fromEnv(), fromFile(path), fromDefaults()]);
+   * ```
+   */
+  public static any<const R extends readonly Result<unknown, Error>[]>(
+    results: R,
+  ): Result<InferValue<R[number]>, CompositeError<InferError<R[number]>>> {
+    const errors: InferError<R[number]>[] = [];
+    for (const result of results) {
+      if (result.isSuccess) {
+        return Result.ok(result._value as InferValue<R[number]>);
+      }
+      errors.push(result._error as InferError<R[number]>);
+    }
+    return Result.fail(
+      new CompositeError(errors, errors.length === 0 ? 'No results to choose from' : undefined),
+    );
+  }
+
+  /**
+   * Re-types a failed result for a different success type.
+   * Failures carry no value, so the frozen instance is reused and its cancellation state is kept.
+   */
+  private propagate<U>(): Result<U, E> {
+    if (this.isSuccess) {
+      throw new Error('Cannot propagate a successful result');
+    }
+    return this as unknown as Result<U, E>;
+  }
 }
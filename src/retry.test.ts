@@ -0,0 +1,118 @@
+// @ts-nocheck - Deno imports are not recognized by TypeScript
+import { assertEquals } from 'jsr:@std/assert';
+import { retry } from './retry.ts';
+import { Result } from './result.ts';
+import { RetryError, TechnicalError, TimeoutError, ValidationError } from './errors.ts';
+import { fakeClock } from '../tests/fake-clock.ts';
+
+/**
+ * An operation failing with the given errors before succeeding
+ */
+function failingWith(...errors: Error[]): (attempt: number) => Result<string, Error> {
+  return (attempt) =>
+    attempt <= errors.length ? Result.fail(errors[attempt - 1]) : Result.ok(`attempt ${attempt}`);
+}
+
+Deno.test('retry - Policy', async (t) => {
+  await t.step('retries technical errors until success', async () => {
+    const clock = fakeClock();
+    const result = await retry(
+      failingWith(new TimeoutError('op', 10), new TechnicalError('down')),
+      {
+        clock,
+      },
+    );
+
+    assertEquals(result.value, 'attempt 3');
+    assertEquals(clock.sleeps, [300, 600]);
+  });
+
+  await t.step('does not retry domain errors by default', async () => {
+    const clock = fakeClock();
+    const result = await retry(failingWith(new ValidationError('Bad input')), { clock });
+
+    assertEquals(result.error.name, 'ValidationError');
+    assertEquals(clock.sleeps, []);
+  });
+
+  await t.step('uses a custom shouldRetry predicate', async () => {
+    const result = await retry(failingWith(new Error('a'), new Error('b')), {
+      clock: fakeClock(),
+      shouldRetry: (error, attempt) => error.message === 'a' && attempt < 5,
+    });
+
+    assertEquals(result.error.message, 'b');
+  });
+
+  await t.step('aggregates every attempt error once attempts run out', async () => {
+    const result = await retry(failingWith(...Array(5).fill(new TechnicalError('down'))), {
+      maxAttempts: 3,
+      clock: fakeClock(),
+    });
+
+    assertEquals(result.error instanceof RetryError, true);
+    assertEquals(result.error.attempts, 3);
+    assertEquals(result.error.errors.length, 3);
+  });
+
+  await t.step('caps delays and applies jitter', async () => {
+    const capped = fakeClock();
+    const jittered = fakeClock();
+    const errors = Array(4).fill(new TechnicalError('down'));
+
+    await retry(failingWith(...errors), {
+      maxAttempts: 5,
+      delayMs: 100,
+      maxDelayMs: 300,
+      clock: capped,
+    });
+    await retry(failingWith(...errors), {
+      maxAttempts: 5,
+      delayMs: 100,
+      jitter: 'equal',
+      random: () => 0.5,
+      clock: jittered,
+    });
+
+    assertEquals(capped.sleeps, [100, 200, 300, 300]);
+    assertEquals(jittered.sleeps, [75, 150, 300, 600]);
+  });
+
+  await t.step('calls onRetry before each delay', async () => {
+    const calls: string[] = [];
+    await retry(failingWith(new TechnicalError('down')), {
+      clock: fakeClock(),
+      onRetry: (error, attempt, delayMs) => calls.push(`${attempt}: ${error.message} (${delayMs})`),
+    });
+
+    assertEquals(calls, ['1: Technical Error: down (300)']);
+  });
+
+  await t.step('stops before a retry that would start after the deadline', async () => {
+    const clock = fakeClock();
+    const result = await retry(failingWith(...Array(5).fill(new TechnicalError('down'))), {
+      maxAttempts: 10,
+      delayMs: 100,
+      deadlineMs: 500,
+      clock,
+    });
+
+    assertEquals(result.error.attempts, 3);
+    assertEquals(result.error.message.includes('deadline exceeded'), true);
+    assertEquals(clock.sleeps, [100, 200]);
+  });
+
+  await t.step('is cancelled when the signal is aborted', async () => {
+    const controller = new AbortController();
+    let attempts = 0;
+
+    const result = await retry(() => {
+      attempts++;
+      controller.abort();
+      return Result.fail(new TechnicalError('down'));
+    }, { signal: controller.signal, clock: fakeClock() });
+
+    assertEquals(result.isCancelled, true);
+    assertEquals(attempts, 1);
+  });
+});
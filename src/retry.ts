@@ -0,0 +1,192 @@
+import { AsyncResult } from './async-result.ts';
+import { type Clock, systemClock } from './clock.ts';
+import {
+  CancellationError,
+  CircuitOpenError,
+  RejectedError,
+  RetryError,
+  TechnicalError,
+} from './errors.ts';
+import { Result } from './result.ts';
+
+/**
+ * How random jitter is applied to retry delays:
+ * - `none`: the exponential delay as is
+ * - `full`: a random delay between 0 and the exponential delay
+ * - `equal`: half of the exponential delay plus a random share of the other half
+ * - `decorrelated`: a random delay between `delayMs` and three times the previous delay
+ */
+export type RetryJitter = 'none' | 'full' | 'equal' | 'decorrelated';
+
+/**
+ * Options controlling how `retry` retries an operation
+ */
+export interface RetryPolicy<E extends Error = Error> {
+  /**
+   * Total number of attempts, including the first one (default: 3)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds (default: 300)
+   */
+  delayMs?: number;
+
+  /**
+   * Factor the delay grows by after each retry (default: 2)
+   */
+  factor?: number;
+
+  /**
+   * Upper bound for a single delay in milliseconds (default: no limit)
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Jitter strategy applied to each delay (default: `none`)
+   */
+  jitter?: RetryJitter;
+
+  /**
+   * Decides whether a failed attempt is retried (default: `isRetryableError`)
+   */
+  shouldRetry?: (error: E, attempt: number) => boolean;
+
+  /**
+   * Called with the failed attempt's error before waiting `delayMs` for the next attempt
+   */
+  onRetry?: (error: E, attempt: number, delayMs: number) => void;
+
+  /**
+   * Overall time budget in milliseconds, measured from the first attempt.
+   * No retry is scheduled that would start after it.
+   */
+  deadlineMs?: number;
+
+  /**
+   * AbortSignal cancelling the pending attempt and any further retries
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Clock used for delays and the deadline (default: `systemClock`)
+   */
+  clock?: Clock;
+
+  /**
+   * Source of randomness for jitter, returning a number in [0, 1) (default: `Math.random`)
+   */
+  random?: () => number;
+}
+
+/**
+ * The default `shouldRetry` predicate: retries technical errors such as `TimeoutError`, but not
+ * cancellations, open circuits, calls rejected by admission control or domain errors like
+ * `ValidationError` and `UnauthorizedError`
+ */
+export function isRetryableError(error: Error): boolean {
+  return error instanceof TechnicalError &&
+    !(error instanceof CancellationError) &&
+    !(error instanceof CircuitOpenError) &&
+    !(error instanceof RejectedError);
+}
+
+/**
+ * Runs an operation and retries it according to a retry policy.
+ *
+ * Errors rejected by `shouldRetry` are returned as they are. When the attempts or the deadline
+ * run out, the result fails with a `RetryError` holding the error of every attempt. Aborting the
+ * policy's signal produces a cancelled result.
+ *
+ * @param fn Operation to run, receiving the 1-based attempt number and the policy's signal
+ * @param policy Options for retry behavior
+ * @returns AsyncResult of the first successful attempt, or of the final failure
+ *
+ * @example
+ * ```typescript
+ * const user = await retry((attempt, signal) => fetchUser(id, signal), {
+ *   maxAttempts: 5,
+ *   delayMs: 100,
+ *   maxDelayMs: 2000,
+ *   jitter: 'full',
+ *   onRetry: (error, attempt, delayMs) => logger.warn(`Attempt ${attempt} failed`, error),
+ * });
+ * ```
+ */
+export function retry<T, E extends Error = Error>(
+  fn: (attempt: number, signal?: AbortSignal) => Result<T, E> | PromiseLike<Result<T, E>>,
+  policy: RetryPolicy<E> = {},
+): AsyncResult<T, E | RetryError<E> | CancellationError> {
+  return AsyncResult.from(retryLoop(fn, policy), policy.signal);
+}
+
+/**
+ * Runs the retry loop behind `retry`
+ */
+async function retryLoop<T, E extends Error>(
+  fn: (attempt: number, signal?: AbortSignal) => Result<T, E> | PromiseLike<Result<T, E>>,
+  policy: RetryPolicy<E>,
+): Promise<Result<T, E | RetryError<E> | CancellationError>> {
+  const {
+    maxAttempts = 3,
+    shouldRetry = isRetryableError,
+    onRetry,
+    deadlineMs,
+    signal,
+    clock = systemClock,
+  } = policy;
+  const deadline = deadlineMs === undefined ? Infinity : clock.now() + deadlineMs;
+  const errors: E[] = [];
+  let delay = policy.delayMs ?? 300;
+
+  for (let attempt = 1;; attempt++) {
+    const result = await Result.ok<number, E>(attempt)
+      .toAsync(signal)
+      .flatMap((n) => fn(n, signal));
+
+    if (result.isSuccess || result.isCancelled || !shouldRetry(result.error, attempt)) {
+      return result;
+    }
+
+    errors.push(result.error);
+    if (attempt >= maxAttempts) {
+      return Result.fail(new RetryError(errors));
+    }
+
+    delay = retryDelay(attempt, delay, policy);
+    if (clock.now() + delay > deadline) {
+      return Result.fail(new RetryError(errors, 'deadline exceeded'));
+    }
+
+    onRetry?.(result.error, attempt, delay);
+    await clock.sleep(delay, signal);
+    if (signal?.aborted) {
+      return Result.cancelled('Operation was aborted');
+    }
+  }
+}
+
+/**
+ * Computes the delay before the retry following the given failed attempt
+ */
+function retryDelay(attempt: number, previousDelay: number, policy: RetryPolicy<never>): number {
+  const {
+    delayMs = 300,
+    factor = 2,
+    maxDelayMs = Infinity,
+    jitter = 'none',
+    random = Math.random,
+  } = policy;
+  const exponential = Math.min(maxDelayMs, delayMs * factor ** (attempt - 1));
+
+  switch (jitter) {
+    case 'full':
+      return random() * exponential;
+    case 'equal':
+      return exponential / 2 + random() * (exponential / 2);
+    case 'decorrelated':
+      return Math.min(maxDelayMs, delayMs + random() * Math.max(0, previousDelay * 3 - delayMs));
+    default:
+      return exponential;
+  }
+}
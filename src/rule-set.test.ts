@@ -0,0 +1,166 @@
+// @ts-nocheck - Deno imports are not recognized by TypeScript
+import { assertEquals } from 'jsr:@std/assert';
+import { rules } from './rule-set.ts';
+import { validate } from './validation.ts';
+
+interface Address {
+  street: string;
+  city: string;
+}
+
+interface User {
+  name: string;
+  email: string;
+  address: Address;
+}
+
+const addressRules = rules<Address>()
+  .property('street', (street) => street.notEmpty())
+  .property('city', (city) => city.notEmpty());
+
+const userRules = rules<User>()
+  .property('name', (name) => name.notEmpty().maxLength(10))
+  .property('email', (email) => email.email())
+  .nested('address', addressRules);
+
+const validUser: User = {
+  name: 'Ann',
+  email: 'ann@example.com',
+  address: { street: 'Main St', city: 'Oslo' },
+};
+
+const invalidUser: User = {
+  name: '',
+  email: 'ann',
+  address: { street: '', city: 'Oslo' },
+};
+
+/**
+ * Lists the paths of the issues of a failed validation
+ */
+function issuePaths(result: { error: { issues: { path: (string | number)[] }[] } }): string[] {
+  return result.error.issues.map((issue) => issue.path.join('.'));
+}
+
+Deno.test('RuleSet - Validation', async (t) => {
+  await t.step('validates any number of values with the same rules', () => {
+    assertEquals(userRules.validate(validUser).value, validUser);
+    assertEquals(issuePaths(userRules.validate(invalidUser)), ['name', 'email', 'address.street']);
+    assertEquals(userRules.validate(validUser).isSuccess, true);
+  });
+
+  await t.step('is reusable in nested properties and array items', () => {
+    const result = validate({ owner: invalidUser, members: [validUser, invalidUser] })
+      .nested('owner', userRules)
+      .array('members', userRules)
+      .validate();
+
+    assertEquals(issuePaths(result), [
+      'owner.name',
+      'owner.email',
+      'owner.address.street',
+      'members.1.name',
+      'members.1.email',
+      'members.1.address.street',
+    ]);
+  });
+
+  await t.step('passes validator options and message options', () => {
+    const result = userRules.validate(invalidUser, {
+      maxErrors: 2,
+      messages: { notEmpty: '{path} darf nicht leer sein' },
+    });
+
+    assertEquals(result.error.issues.map((issue) => issue.message), [
+      'name darf nicht leer sein',
+      'email must be a valid email address',
+    ]);
+  });
+
+  await t.step('runs asynchronous rules with validateAsync', async () => {
+    const taken = userRules.property(
+      'email',
+      (email) => email.customAsync((value) => Promise.resolve(value !== 'ann@example.com')),
+    );
+
+    assertEquals(issuePaths(await taken.validateAsync(validUser)), ['email']);
+  });
+
+  await t.step('applies rules of the whole value', () => {
+    const rangeRules = rules<{ from: number; to: number }>()
+      .property('from', (from) => from.min(0))
+      .refine((range) => range.to > range.from, { path: 'to' });
+
+    assertEquals(issuePaths(rangeRules.validate({ from: 5, to: 1 })), ['to']);
+  });
+});
+
+Deno.test('RuleSet - Composition', async (t) => {
+  await t.step('leaves the original rule set unchanged when adding rules', () => {
+    const base = rules<Address>();
+    base.property('city', (city) => city.notEmpty());
+
+    assertEquals(base.validate({ street: '', city: '' }).isSuccess, true);
+  });
+
+  await t.step('extends rules for a type with more properties', () => {
+    const adminRules = userRules
+      .extend<User & { role: string }>()
+      .property('role', (role) => role.oneOf(['admin']));
+
+    assertEquals(issuePaths(adminRules.validate({ ...invalidUser, role: 'guest' })), [
+      'name',
+      'email',
+      'address.street',
+      'role',
+    ]);
+  });
+
+  await t.step('picks and omits the rules of properties', () => {
+    assertEquals(issuePaths(userRules.pick('email').validate(invalidUser)), ['email']);
+    assertEquals(issuePaths(userRules.omit('email').validate(invalidUser)), [
+      'name',
+      'address.street',
+    ]);
+  });
+
+  await t.step('merges the rules of two rule sets', () => {
+    const contactRules = rules<{ phone: string }>().property('phone', (phone) => phone.notEmpty());
+
+    assertEquals(
+      issuePaths(userRules.merge(contactRules).validate({ ...invalidUser, phone: '' })),
+      ['name', 'email', 'address.street', 'phone'],
+    );
+  });
+});
+
+Deno.test('RuleSet - JSON Schema', async (t) => {
+  await t.step('describes properties, nested objects and arrays', () => {
+    const profileRules = rules<User & { age?: number; tags: string[] }>()
+      .property('name', (name) => name.required().isString().minLength(1).maxLength(10))
+      .property('email', (email) => email.required().email())
+      .property('age', (age) => age.isNumber().isInteger().min(0))
+      .array<string>('tags', (tag) => tag.isString().oneOf(['a', 'b']))
+      .nested('address', rules<Address>().property('city', (city) => city.required()))
+      .refine((user) => user.name !== user.email);
+
+    assertEquals(profileRules.toJsonSchema(), {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 10 },
+        email: { format: 'email' },
+        age: { type: 'integer', minimum: 0 },
+        tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] } },
+        address: { type: 'object', properties: { city: {} }, required: ['city'] },
+      },
+      required: ['name', 'email', 'tags'],
+    });
+  });
+
+  await t.step('keeps the rules selected by pick', () => {
+    assertEquals(userRules.pick('email').toJsonSchema().properties, {
+      email: { format: 'email' },
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import type { CancellationError, TechnicalError, ValidationError } from './errors.ts';
+import type { JsonSchema } from './json-schema.ts';
+import type { MessageOptions } from './messages.ts';
+import type { Result } from './result.ts';
+import {
+  type RefineOptions,
+  type ValidationRules,
+  Validator,
+  type ValidatorOptions,
+} from './validation.ts';
+
+/**
+ * A recorded step of a rule set, replayed on every validated value
+ */
+interface Step<T> {
+  /**
+   * The property the step validates, or undefined for rules of the whole value
+   */
+  key?: keyof T;
+  apply: (validator: Validator<T>) => void;
+}
+
+/**
+ * A reusable validator definition, built once with `rules()` and applied to any number of values.
+ *
+ * @remarks
+ * Rule sets are immutable: every method returns a new rule set, so a base definition can be shared
+ * and extended. Rules are recorded rather than run, and replayed on each validated value, so
+ * applying a rule set costs no more than writing the same chain by hand.
+ *
+ * `pick` and `omit` select the property rules of the given keys. Rules of the whole value, added
+ * with `refine`, `custom`, `when` or `rule`, may read any property and are dropped by both.
+ *
+ * @example
+ * ```typescript
+ * const addressRules = rules<Address>()
+ *   .property('street', (street) => street.notEmpty())
+ *   .property('city', (city) => city.notEmpty());
+ *
+ * const userRules = rules<User>()
+ *   .property('email', (email) => email.required().email())
+ *   .nested('address', addressRules);
+ *
+ * const result = userRules.validate(user);
+ * const signupRules = userRules.extend<Signup>().property('password', (p) => p.minLength(12));
+ * ```
+ */
+export class RuleSet<T> {
+  private readonly _steps: readonly Step<T>[];
+
+  private constructor(steps: readonly Step<T>[]) {
+    this._steps = steps;
+
+    // Freeze the object to prevent modification
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates a rule set without any rules
+   */
+  public static create<U>(): RuleSet<U> {
+    return new RuleSet<U>([]);
+  }
+
+  /**
+   * Validates a property with a function or another rule set
+   */
+  public property<K extends keyof T>(
+    propertyName: K,
+    validationFn: ValidationRules<T[K]>,
+  ): RuleSet<T> {
+    return this.with({
+      key: propertyName,
+      apply: (validator) => validator.property(propertyName, validationFn),
+    });
+  }
+
+  /**
+   * Validates a nested object with a function or another rule set
+   */
+  public nested<K extends keyof T>(
+    propertyName: K,
+    validationFn: ValidationRules<T[K]>,
+  ): RuleSet<T> {
+    return this.property(propertyName, validationFn);
+  }
+
+  /**
+   * Validates every item of an array property with a function or another rule set
+   */
+  public array<ItemType, K extends Extract<keyof T, string> = Extract<keyof T, string>>(
+    propertyName: K,
+    validator: ValidationRules<ItemType>,
+  ): RuleSet<T> {
+    return this.with({
+      key: propertyName,
+      apply: (target) => target.array<ItemType, ItemType, K>(propertyName, validator),
+    });
+  }
+
+  /**
+   * Validates a property using the values of other properties, see `Validator.dependsOn`
+   */
+  public dependsOn<K extends keyof T, D extends keyof T>(
+    propertyName: K,
+    dependencies: readonly D[],
+    validationFn: (validator: Validator<T[K]>, values: Pick<T, D>) => Validator<T[K]>,
+  ): RuleSet<T> {
+    return this.with({
+      key: propertyName,
+      apply: (validator) => validator.dependsOn(propertyName, dependencies, validationFn),
+    });
+  }
+
+  /**
+   * Applies a cross-field check to the value, see `Validator.refine`
+   */
+  public refine(predicate: (value: T) => boolean, options?: RefineOptions): RuleSet<T> {
+    return this.with({ apply: (validator) => validator.refine(predicate, options) });
+  }
+
+  /**
+   * Applies a custom check to the value, see `Validator.custom`
+   */
+  public custom(predicate: (value: T) => boolean, errorMessage?: string): RuleSet<T> {
+    return this.with({ apply: (validator) => validator.custom(predicate, errorMessage) });
+  }
+
+  /**
+   * Applies rules only if a condition holds, see `Validator.when`
+   */
+  public when(
+    predicate: (value: T) => boolean,
+    then: (validator: Validator<T>) => Validator<T>,
+    otherwise?: (validator: Validator<T>) => Validator<T>,
+  ): RuleSet<T> {
+    return this.with({ apply: (validator) => validator.when(predicate, then, otherwise) });
+  }
+
+  /**
+   * Applies any other rules to the value, such as `union`, `record` or `tuple`
+   */
+  public rule(validationFn: (validator: Validator<T>) => Validator<T>): RuleSet<T> {
+    return this.with({ apply: validationFn });
+  }
+
+  /**
+   * Reuses the rules for a type with more properties
+   */
+  public extend<U extends T>(): RuleSet<U> {
+    return new RuleSet<U>(this._steps as unknown as readonly Step<U>[]);
+  }
+
+  /**
+   * Keeps only the rules of the given properties
+   */
+  public pick<K extends keyof T>(...propertyNames: K[]): RuleSet<Pick<T, K>> {
+    const keys = new Set<keyof T>(propertyNames);
+    return this.select((key) => keys.has(key)) as unknown as RuleSet<Pick<T, K>>;
+  }
+
+  /**
+   * Drops the rules of the given properties
+   */
+  public omit<K extends keyof T>(...propertyNames: K[]): RuleSet<Omit<T, K>> {
+    const keys = new Set<keyof T>(propertyNames);
+    return this.select((key) => !keys.has(key)) as unknown as RuleSet<Omit<T, K>>;
+  }
+
+  /**
+   * Combines the rules of both rule sets, applying the rules of this one first
+   */
+  public merge<U>(other: RuleSet<U>): RuleSet<T & U> {
+    const steps = [...this._steps, ...other._steps] as unknown as readonly Step<T & U>[];
+    return new RuleSet<T & U>(steps);
+  }
+
+  /**
+   * Applies the rules to a validator
+   *
+   * @param validator - The validator of the value
+   * @returns The same validator, for chaining further rules
+   */
+  public applyTo(validator: Validator<T>): Validator<T> {
+    for (const step of this._steps) {
+      step.apply(validator);
+    }
+    return validator;
+  }
+
+  /**
+   * Describes the rules as a JSON Schema (draft 2020-12) document, see `Validator.toJsonSchema`
+   *
+   * @returns The JSON Schema document
+   */
+  public toJsonSchema(): JsonSchema {
+    return Validator.toJsonSchema(this);
+  }
+
+  /**
+   * Validates a value against the rules
+   *
+   * @param value - The value to validate
+   * @param options - Limits on the rules that run, and how the error messages are rendered
+   * @returns A Result indicating success or failure with validation errors
+   * @throws Error if asynchronous rules were added, which require `validateAsync`
+   */
+  public validate(
+    value: T,
+    options: ValidatorOptions & MessageOptions = {},
+  ): Result<T, ValidationError> {
+    return this.applyTo(Validator.for(value, options)).validate(options);
+  }
+
+  /**
+   * Validates a value against the rules, including asynchronous ones
+   *
+   * @param value - The value to validate
+   * @param signal - Optional AbortSignal that cancels the validation and the running rules
+   * @param options - Limits on the rules that run, and how the error messages are rendered
+   * @returns A promise of a Result indicating success, failure with validation errors, a
+   * TechnicalError if an asynchronous rule rejected, or cancellation
+   */
+  public async validateAsync(
+    value: T,
+    signal?: AbortSignal,
+    options: ValidatorOptions & MessageOptions = {},
+  ): Promise<Result<T, ValidationError | TechnicalError | CancellationError>> {
+    return await this.applyTo(Validator.for(value, options)).validateAsync(signal, options);
+  }
+
+  /**
+   * Keeps the property rules whose property matches the predicate
+   */
+  private select(predicate: (key: keyof T) => boolean): RuleSet<T> {
+    return new RuleSet<T>(
+      this._steps.filter((step) => step.key !== undefined && predicate(step.key)),
+    );
+  }
+
+  private with(step: Step<T>): RuleSet<T> {
+    return new RuleSet<T>([...this._steps, step]);
+  }
+}
+
+/**
+ * Starts building a reusable validator definition
+ *
+ * @example
+ * ```typescript
+ * const userRules = rules<User>().property('email', (email) => email.required().email());
+ *
+ * userRules.validate(user);
+ * validate(team).array('members', userRules).validate();
+ * ```
+ */
+export function rules<T>(): RuleSet<T> {
+  return RuleSet.create<T>();
+}
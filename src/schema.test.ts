@@ -0,0 +1,111 @@
+// @ts-nocheck - Deno imports are not recognized by TypeScript
+import { assertEquals } from 'jsr:@std/assert';
+import { s } from './schema.ts';
+
+const userSchema = s.object({
+  name: s.string().min(1),
+  age: s.number().int().min(0).optional(),
+  role: s.string().oneOf(['admin', 'member']).default('member'),
+  tags: s.array(s.string()),
+  address: s.object({ city: s.string() }).nullable(),
+});
+
+Deno.test('Schema - Objects', async (t) => {
+  await t.step('parses valid input, applying defaults and stripping unknown keys', () => {
+    const result = userSchema.parse({ name: 'Ann', tags: ['a'], address: null, extra: true });
+
+    assertEquals(result.value, { name: 'Ann', role: 'member', tags: ['a'], address: null });
+  });
+
+  await t.step('reports every issue by its path', () => {
+    const result = userSchema.parse({
+      name: '',
+      age: 1.5,
+      role: 'owner',
+      tags: ['a', 2],
+      address: {},
+    });
+
+    assertEquals(result.error.issues, [
+      {
+        path: ['name'],
+        code: 'minLength',
+        message: 'name must be at least 1 characters',
+        params: { length: 1 },
+      },
+      { path: ['age'], code: 'isInteger', message: 'age must be an integer' },
+      {
+        path: ['role'],
+        code: 'oneOf',
+        message: 'role must be one of: admin, member',
+        params: { allowed: ['admin', 'member'] },
+      },
+      { path: ['tags', 1], code: 'isString', message: 'tags[1] must be a string' },
+      { path: ['address', 'city'], code: 'required', message: 'address.city is required' },
+    ]);
+  });
+
+  await t.step('ignores inherited members of the input', () => {
+    const schema = s.object({ toString: s.string().optional(), constructor: s.string() });
+
+    assertEquals(schema.parse({}).error.issues.map(({ path, code }) => ({ path, code })), [
+      { path: ['constructor'], code: 'required' },
+    ]);
+    assertEquals(schema.parse({ constructor: 'a' }).value, { constructor: 'a' });
+  });
+
+  await t.step('rejects input of the wrong type', () => {
+    assertEquals(userSchema.parse([]).error.issues, [
+      { path: [], code: 'isObject', message: 'value must be an object' },
+    ]);
+  });
+});
+
+Deno.test('Schema - Types', async (t) => {
+  await t.step('checks tuples by length and position', () => {
+    const pair = s.tuple([s.string(), s.number()]);
+
+    assertEquals(pair.parse(['a', 1]).value, ['a', 1]);
+    assertEquals(pair.parse(['a']).error.issues[0].code, 'length');
+    assertEquals(pair.parse([1, 1]).error.issues[0].path, [0]);
+  });
+
+  await t.step('parses every value of a record', () => {
+    const scores = s.record(s.number().max(10));
+
+    assertEquals(scores.parse({ ann: 3 }).value, { ann: 3 });
+    assertEquals(scores.parse({ ann: 3, bob: 11 }).error.issues[0].path, ['bob']);
+  });
+
+  await t.step('copies a __proto__ key of a record instead of setting the prototype', () => {
+    const result = s.record(s.unknown()).parse(JSON.parse('{"__proto__": {"admin": true}}'));
+
+    assertEquals(Object.getPrototypeOf(result.value), Object.prototype);
+    assertEquals(Object.hasOwn(result.value, '__proto__'), true);
+    assertEquals(result.value.admin, undefined);
+  });
+
+  await t.step('returns the first union option that parses the input', () => {
+    const id = s.union([s.literal('me'), s.number().int()]);
+
+    assertEquals(id.parse('me').value, 'me');
+    assertEquals(id.parse(7).value, 7);
+    assertEquals(id.parse('you').error.issues, [
+      { path: [], code: 'union', message: 'value does not match any of the allowed types' },
+    ]);
+  });
+
+  await t.step('runs custom rules on the parsed value', () => {
+    const even = s.number().custom((n) => n % 2 === 0, '{path} must be even');
+
+    assertEquals(even.parse(2).isSuccess, true);
+    assertEquals(even.parse(3).error.issues[0].message, 'value must be even');
+  });
+
+  await t.step('leaves the original schema unchanged when adding rules', () => {
+    const name = s.string();
+    name.min(3);
+
+    assertEquals(name.parse('a').isSuccess, true);
+  });
+});
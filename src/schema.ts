@@ -0,0 +1,757 @@
+import { ValidationError } from './errors.ts';
+import { type MessageOptions, renderIssue, type UnrenderedIssue } from './messages.ts';
+import { Result } from './result.ts';
+import { type Check, checks, describeCheck, JSON_SCHEMA_DIALECT, toIssue } from './checks.ts';
+import type { JsonSchema } from './json-schema.ts';
+
+type Path = (string | number)[];
+
+/**
+ * Marks an input that failed to parse; its issues have already been recorded
+ */
+const INVALID: unique symbol = Symbol('invalid');
+
+type Parsed<T> = T | typeof INVALID;
+
+/**
+ * The output type of a schema
+ *
+ * @example
+ * ```typescript
+ * const userSchema = s.object({ name: s.string(), age: s.number().optional() });
+ * type User = Infer<typeof userSchema>; // { name: string; age?: number | undefined }
+ * ```
+ */
+export type Infer<S extends Schema<unknown>> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type ObjectOutput<S extends Shape> =
+  & { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> }
+  & { [K in OptionalKeys<S>]?: Infer<S[K]> } extends infer O ? { [K in keyof O]: O[K] }
+  : never;
+
+type TupleOutput<S extends readonly Schema<unknown>[]> = {
+  -readonly [K in keyof S]: Infer<S[K]>;
+};
+
+type Literal = string | number | boolean | null;
+
+/**
+ * Parses unknown input into a typed value, collecting an issue for every rule it breaks.
+ * Schemas are immutable: every rule returns a new schema.
+ */
+export abstract class Schema<T> {
+  /**
+   * The output type, only declared for type inference
+   */
+  declare readonly _output: T;
+
+  private readonly _checks: readonly Check[] = [];
+
+  /**
+   * Parses the input into the schema's output type.
+   * On failure, the ValidationError's `issues` locate every failed rule by its path.
+   *
+   * @param input - The value to parse
+   * @param options - The locale, message catalog and formatter of the error messages
+   * @returns A Result holding the parsed value, or a ValidationError
+   */
+  public parse(input: unknown, options?: MessageOptions): Result<T, ValidationError> {
+    const issues: UnrenderedIssue[] = [];
+    const value = this.run(input, [], issues);
+
+    if (value === INVALID) {
+      return Result.fail<T, ValidationError>(
+        ValidationError.fromIssues(issues.map((issue) => renderIssue(issue, options))),
+      );
+    }
+    return Result.ok<T, ValidationError>(value);
+  }
+
+  /**
+   * Describes the schema as a JSON Schema (draft 2020-12) document, e.g. for OpenAPI definitions.
+   * Rules without a JSON Schema equivalent, such as `custom` or `notEmpty`, are left out.
+   *
+   * @returns The JSON Schema document
+   */
+  public toJsonSchema(): JsonSchema {
+    return { $schema: JSON_SCHEMA_DIALECT, ...this.describe() };
+  }
+
+  /**
+   * Accepts `undefined` in addition to the values of this schema. Optional properties of an
+   * object schema may be missing.
+   */
+  public optional(): Schema<T | undefined> {
+    return new OptionalSchema(this);
+  }
+
+  /**
+   * Accepts `null` in addition to the values of this schema.
+   */
+  public nullable(): Schema<T | null> {
+    return new NullableSchema(this);
+  }
+
+  /**
+   * Replaces `undefined` with a default value. Optional properties of an object schema may be
+   * missing.
+   *
+   * @param value - The value to use when the input is `undefined`
+   */
+  public default(value: Exclude<T, undefined>): Schema<Exclude<T, undefined>> {
+    return new DefaultSchema(this, value);
+  }
+
+  /**
+   * Applies a custom validation function to the parsed value.
+   *
+   * @param predicate - A function that returns true if valid, false if invalid
+   * @param errorMessage - The error message if validation fails
+   * @returns A new schema with the rule added
+   */
+  public custom(predicate: (value: T) => boolean, errorMessage?: string): this {
+    return this.check(checks.custom(predicate, errorMessage));
+  }
+
+  /**
+   * Returns a copy of this schema with a rule added.
+   */
+  protected check(check: Check): this {
+    const copy = Object.assign(Object.create(Object.getPrototypeOf(this)), this, {
+      _checks: [...this._checks, check],
+    });
+    return Object.freeze(copy);
+  }
+
+  /**
+   * Parses a nested value with another schema, recording its issues at its path.
+   */
+  protected parseWith<U>(
+    schema: Schema<U>,
+    input: unknown,
+    path: Path,
+    issues: UnrenderedIssue[],
+  ): Parsed<U> {
+    return schema.run(input, path, issues);
+  }
+
+  /**
+   * Describes a nested schema as a JSON Schema.
+   */
+  protected describeWith(schema: Schema<unknown>): JsonSchema {
+    return schema.describe();
+  }
+
+  /**
+   * Checks the type of the input, recording a `required` issue for `undefined` and an issue of
+   * the type rule for any other mismatch.
+   */
+  protected expect(input: unknown, path: Path, issues: UnrenderedIssue[], type: Check): boolean {
+    const failed = input === undefined ? checks.required() : type.test(input) ? undefined : type;
+    if (failed) {
+      issues.push(toIssue(failed, path));
+    }
+    return !failed;
+  }
+
+  /**
+   * Converts the input into the output type, or records why it can't.
+   */
+  protected abstract parseValue(input: unknown, path: Path, issues: UnrenderedIssue[]): Parsed<T>;
+
+  /**
+   * Describes the values the schema accepts before its rules are applied.
+   */
+  protected abstract describeValue(): JsonSchema;
+
+  private describe(): JsonSchema {
+    const description = this.describeValue();
+    for (const check of this._checks) {
+      describeCheck(description, check);
+    }
+    return description;
+  }
+
+  private run(input: unknown, path: Path, issues: UnrenderedIssue[]): Parsed<T> {
+    const value = this.parseValue(input, path, issues);
+    if (value === INVALID) {
+      return INVALID;
+    }
+
+    const failed = this._checks.filter((check) => !check.test(value));
+    issues.push(...failed.map((check) => toIssue(check, path)));
+    return failed.length === 0 ? value : INVALID;
+  }
+}
+
+/**
+ * Schema for strings
+ */
+export class StringSchema<T extends string = string> extends Schema<T> {
+  /**
+   * @internal Use `s.string()` instead
+   */
+  public constructor() {
+    super();
+    Object.freeze(this);
+  }
+
+  /**
+   * Requires at least the given number of characters.
+   */
+  public min(length: number): this {
+    return this.check(checks.minLength(length));
+  }
+
+  /**
+   * Allows at most the given number of characters.
+   */
+  public max(length: number): this {
+    return this.check(checks.maxLength(length));
+  }
+
+  /**
+   * Requires exactly the given number of characters.
+   */
+  public length(length: number): this {
+    return this.check(checks.length(length));
+  }
+
+  /**
+   * Requires the string to contain more than whitespace.
+   */
+  public notEmpty(): this {
+    return this.check(checks.notEmpty());
+  }
+
+  /**
+   * Requires the string to be an email address.
+   */
+  public email(): this {
+    return this.check(checks.email());
+  }
+
+  /**
+   * Requires the string to match the given regular expression.
+   */
+  public matches(pattern: RegExp): this {
+    return this.check(checks.matches(pattern));
+  }
+
+  /**
+   * Requires the string to start with the given prefix.
+   */
+  public startsWith(prefix: string): this {
+    return this.check(checks.startsWith(prefix));
+  }
+
+  /**
+   * Requires the string to end with the given suffix.
+   */
+  public endsWith(suffix: string): this {
+    return this.check(checks.endsWith(suffix));
+  }
+
+  /**
+   * Requires the string to be an absolute http or https URL.
+   */
+  public url(): this {
+    return this.check(checks.url());
+  }
+
+  /**
+   * Requires the string to be a UUID.
+   */
+  public uuid(): this {
+    return this.check(checks.uuid());
+  }
+
+  /**
+   * Requires the string to be an IP address of the given version (default: either).
+   */
+  public ip(version?: 4 | 6): this {
+    return this.check(checks.ip(version));
+  }
+
+  /**
+   * Requires the string to be an ISO 8601 date or date-time.
+   */
+  public isoDate(): this {
+    return this.check(checks.isoDate());
+  }
+
+  /**
+   * Requires the string to be valid JSON.
+   */
+  public json(): this {
+    return this.check(checks.json());
+  }
+
+  /**
+   * Requires the string to be one of the allowed values, narrowing the output type to them.
+   */
+  public oneOf<const V extends T>(allowedValues: readonly V[]): StringSchema<V> {
+    return this.check(checks.oneOf(allowedValues)) as unknown as StringSchema<V>;
+  }
+
+  protected describeValue(): JsonSchema {
+    return { type: 'string' };
+  }
+
+  protected parseValue(input: unknown, path: Path, issues: UnrenderedIssue[]): Parsed<T> {
+    return this.expect(input, path, issues, checks.isString()) ? input as T : INVALID;
+  }
+}
+
+/**
+ * Schema for numbers, excluding `NaN`
+ */
+export class NumberSchema<T extends number = number> extends Schema<T> {
+  /**
+   * @internal Use `s.number()` instead
+   */
+  public constructor() {
+    super();
+    Object.freeze(this);
+  }
+
+  /**
+   * Requires the number to be at least the given minimum.
+   */
+  public min(min: number): this {
+    return this.check(checks.min(min));
+  }
+
+  /**
+   * Requires the number to not exceed the given maximum.
+   */
+  public max(max: number): this {
+    return this.check(checks.max(max));
+  }
+
+  /**
+   * Requires the number to be an integer.
+   */
+  public int(): this {
+    return this.check(checks.isInteger());
+  }
+
+  /**
+   * Requires the number to be greater than zero.
+   */
+  public positive(): this {
+    return this.check(checks.positive());
+  }
+
+  /**
+   * Requires the number to be less than zero.
+   */
+  public negative(): this {
+    return this.check(checks.negative());
+  }
+
+  /**
+   * Requires the number to be a multiple of the given step.
+   */
+  public multipleOf(step: number): this {
+    return this.check(checks.multipleOf(step));
+  }
+
+  /**
+   * Requires the number to be one of the allowed values, narrowing the output type to them.
+   */
+  public oneOf<const V extends T>(allowedValues: readonly V[]): NumberSchema<V> {
+    return this.check(checks.oneOf(allowedValues)) as unknown as NumberSchema<V>;
+  }
+
+  protected describeValue(): JsonSchema {
+    return { type: 'number' };
+  }
+
+  protected parseValue(input: unknown, path: Path, issues: UnrenderedIssue[]): Parsed<T> {
+    return this.expect(input, path, issues, checks.isNumber()) ? input as T : INVALID;
+  }
+}
+
+/**
+ * Schema for booleans
+ */
+export class BooleanSchema extends Schema<boolean> {
+  /**
+   * @internal Use `s.boolean()` instead
+   */
+  public constructor() {
+    super();
+    Object.freeze(this);
+  }
+
+  protected describeValue(): JsonSchema {
+    return { type: 'boolean' };
+  }
+
+  protected parseValue(input: unknown, path: Path, issues: UnrenderedIssue[]): Parsed<boolean> {
+    return this.expect(input, path, issues, checks.isBoolean()) ? input as boolean : INVALID;
+  }
+}
+
+/**
+ * Schema for a single literal value
+ */
+export class LiteralSchema<T extends Literal> extends Schema<T> {
+  /**
+   * @internal Use `s.literal()` instead
+   */
+  public constructor(public readonly value: T) {
+    super();
+    Object.freeze(this);
+  }
+
+  protected describeValue(): JsonSchema {
+    return { const: this.value };
+  }
+
+  protected parseValue(input: unknown, path: Path, issues: UnrenderedIssue[]): Parsed<T> {
+    return this.expect(input, path, issues, checks.literal(this.value)) ? this.value : INVALID;
+  }
+}
+
+/**
+ * Schema accepting any value, including `undefined`
+ */
+export class UnknownSchema extends Schema<unknown> {
+  /**
+   * @internal Use `s.unknown()` instead
+   */
+  public constructor() {
+    super();
+    Object.freeze(this);
+  }
+
+  protected describeValue(): JsonSchema {
+    return {};
+  }
+
+  protected parseValue(input: unknown): Parsed<unknown> {
+    return input;
+  }
+}
+
+/**
+ * Schema for objects with known properties. Properties missing from the shape are stripped
+ * from the output.
+ */
+export class ObjectSchema<S extends Shape> extends Schema<ObjectOutput<S>> {
+  /**
+   * @internal Use `s.object()` instead
+   */
+  public constructor(public readonly shape: S) {
+    super();
+    Object.freeze(this);
+  }
+
+  protected describeValue(): JsonSchema {
+    const entries = Object.entries(this.shape);
+    // Properties are required unless their schema accepts `undefined`
+    const required = entries
+      .filter(([, schema]) => this.parseWith(schema, undefined, [], []) === INVALID)
+      .map(([key]) => key);
+
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        entries.map(([key, schema]) => [key, this.describeWith(schema)]),
+      ),
+      ...(required.length > 0 && { required }),
+    };
+  }
+
+  protected parseValue(
+    input: unknown,
+    path: Path,
+    issues: UnrenderedIssue[],
+  ): Parsed<ObjectOutput<S>> {
+    if (!this.expect(input, path, issues, checks.isObject())) {
+      return INVALID;
+    }
+
+    const properties = input as Record<string, unknown>;
+    const entries: [string, unknown][] = [];
+    let valid = true;
+
+    for (const [key, schema] of Object.entries(this.shape)) {
+      // Inherited members such as `toString` are not properties of the input
+      const own = Object.hasOwn(properties, key);
+      const value = this.parseWith(
+        schema,
+        own ? properties[key] : undefined,
+        [...path, key],
+        issues,
+      );
+      if (value === INVALID) {
+        valid = false;
+      } else if (value !== undefined || own) {
+        entries.push([key, value]);
+      }
+    }
+
+    return valid ? Object.fromEntries(entries) as ObjectOutput<S> : INVALID;
+  }
+}
+
+/**
+ * Schema for arrays whose items all match one schema
+ */
+export class ArraySchema<T> extends Schema<T[]> {
+  /**
+   * @internal Use `s.array()` instead
+   */
+  public constructor(public readonly items: Schema<T>) {
+    super();
+    Object.freeze(this);
+  }
+
+  /**
+   * Requires at least the given number of items.
+   */
+  public min(count: number): this {
+    return this.check(checks.minItems(count));
+  }
+
+  /**
+   * Allows at most the given number of items.
+   */
+  public max(count: number): this {
+    return this.check(checks.maxItems(count));
+  }
+
+  /**
+   * Requires the items to be distinct, compared by the key `by` returns (default: the item).
+   */
+  public unique(by?: (item: T) => unknown): this {
+    return this.check(checks.unique(by));
+  }
+
+  protected describeValue(): JsonSchema {
+    return { type: 'array', items: this.describeWith(this.items) };
+  }
+
+  protected parseValue(input: unknown, path: Path, issues: UnrenderedIssue[]): Parsed<T[]> {
+    if (!this.expect(input, path, issues, checks.isArray())) {
+      return INVALID;
+    }
+
+    const items = (input as unknown[]).map((item, index) =>
+      this.parseWith(this.items, item, [...path, index], issues)
+    );
+    return items.includes(INVALID) ? INVALID : items as T[];
+  }
+}
+
+/**
+ * Schema for fixed-length arrays with a schema per position
+ */
+export class TupleSchema<S extends readonly Schema<unknown>[]> extends Schema<TupleOutput<S>> {
+  /**
+   * @internal Use `s.tuple()` instead
+   */
+  public constructor(public readonly items: S) {
+    super();
+    Object.freeze(this);
+  }
+
+  protected describeValue(): JsonSchema {
+    return {
+      type: 'array',
+      prefixItems: this.items.map((schema) => this.describeWith(schema)),
+      items: false,
+      minItems: this.items.length,
+    };
+  }
+
+  protected parseValue(
+    input: unknown,
+    path: Path,
+    issues: UnrenderedIssue[],
+  ): Parsed<TupleOutput<S>> {
+    if (
+      !this.expect(input, path, issues, checks.isArray()) ||
+      !this.expect(input, path, issues, checks.length(this.items.length))
+    ) {
+      return INVALID;
+    }
+
+    const items = this.items.map((schema, index) =>
+      this.parseWith(schema, (input as unknown[])[index], [...path, index], issues)
+    );
+    return items.includes(INVALID) ? INVALID : items as TupleOutput<S>;
+  }
+}
+
+/**
+ * Schema for objects used as dictionaries, whose values all match one schema
+ */
+export class RecordSchema<T> extends Schema<Record<string, T>> {
+  /**
+   * @internal Use `s.record()` instead
+   */
+  public constructor(public readonly values: Schema<T>) {
+    super();
+    Object.freeze(this);
+  }
+
+  protected describeValue(): JsonSchema {
+    return { type: 'object', additionalProperties: this.describeWith(this.values) };
+  }
+
+  protected parseValue(
+    input: unknown,
+    path: Path,
+    issues: UnrenderedIssue[],
+  ): Parsed<Record<string, T>> {
+    if (!this.expect(input, path, issues, checks.isObject())) {
+      return INVALID;
+    }
+
+    // Entries rather than assignments, so a `__proto__` key is copied instead of setting the prototype
+    const entries: [string, T][] = [];
+    let valid = true;
+
+    for (const [key, item] of Object.entries(input as Record<string, unknown>)) {
+      const value = this.parseWith(this.values, item, [...path, key], issues);
+      if (value === INVALID) {
+        valid = false;
+      } else {
+        entries.push([key, value]);
+      }
+    }
+
+    return valid ? Object.fromEntries(entries) : INVALID;
+  }
+}
+
+/**
+ * Schema accepting the output of the first option that parses the input
+ */
+export class UnionSchema<S extends readonly Schema<unknown>[]> extends Schema<Infer<S[number]>> {
+  /**
+   * @internal Use `s.union()` instead
+   */
+  public constructor(public readonly options: S) {
+    super();
+    Object.freeze(this);
+  }
+
+  protected describeValue(): JsonSchema {
+    return { anyOf: this.options.map((option) => this.describeWith(option)) };
+  }
+
+  protected parseValue(
+    input: unknown,
+    path: Path,
+    issues: UnrenderedIssue[],
+  ): Parsed<Infer<S[number]>> {
+    for (const option of this.options) {
+      const value = this.parseWith(option, input, path, []);
+      if (value !== INVALID) {
+        return value as Infer<S[number]>;
+      }
+    }
+
+    issues.push(toIssue(input === undefined ? checks.required() : checks.union(), path));
+    return INVALID;
+  }
+}
+
+class OptionalSchema<T> extends Schema<T | undefined> {
+  public constructor(private readonly inner: Schema<T>) {
+    super();
+    Object.freeze(this);
+  }
+
+  protected describeValue(): JsonSchema {
+    return this.describeWith(this.inner);
+  }
+
+  protected parseValue(
+    input: unknown,
+    path: Path,
+    issues: UnrenderedIssue[],
+  ): Parsed<T | undefined> {
+    return input === undefined ? undefined : this.parseWith(this.inner, input, path, issues);
+  }
+}
+
+class NullableSchema<T> extends Schema<T | null> {
+  public constructor(private readonly inner: Schema<T>) {
+    super();
+    Object.freeze(this);
+  }
+
+  protected describeValue(): JsonSchema {
+    return { anyOf: [this.describeWith(this.inner), { type: 'null' }] };
+  }
+
+  protected parseValue(input: unknown, path: Path, issues: UnrenderedIssue[]): Parsed<T | null> {
+    return input === null ? null : this.parseWith(this.inner, input, path, issues);
+  }
+}
+
+class DefaultSchema<T> extends Schema<Exclude<T, undefined>> {
+  public constructor(
+    private readonly inner: Schema<T>,
+    private readonly defaultValue: Exclude<T, undefined>,
+  ) {
+    super();
+    Object.freeze(this);
+  }
+
+  protected describeValue(): JsonSchema {
+    return { ...this.describeWith(this.inner), default: this.defaultValue };
+  }
+
+  protected parseValue(
+    input: unknown,
+    path: Path,
+    issues: UnrenderedIssue[],
+  ): Parsed<Exclude<T, undefined>> {
+    return input === undefined
+      ? this.defaultValue
+      : this.parseWith(this.inner, input, path, issues) as Parsed<Exclude<T, undefined>>;
+  }
+}
+
+/**
+ * Builders for schemas that parse unknown input into typed values
+ *
+ * @example
+ * ```typescript
+ * const userSchema = s.object({
+ *   name: s.string().min(1),
+ *   email: s.string().email(),
+ *   age: s.number().int().min(0).optional(),
+ *   roles: s.array(s.string().oneOf(['admin', 'member'])).default([]),
+ * });
+ *
+ * const user = userSchema.parse(await request.json()); // Result<User, ValidationError>
+ * ```
+ */
+export const s = Object.freeze({
+  string: (): StringSchema => new StringSchema(),
+  number: (): NumberSchema => new NumberSchema(),
+  boolean: (): BooleanSchema => new BooleanSchema(),
+  literal: <const T extends Literal>(value: T): LiteralSchema<T> => new LiteralSchema(value),
+  unknown: (): UnknownSchema => new UnknownSchema(),
+  object: <S extends Shape>(shape: S): ObjectSchema<S> => new ObjectSchema(shape),
+  array: <T>(items: Schema<T>): ArraySchema<T> => new ArraySchema(items),
+  tuple: <const S extends readonly Schema<unknown>[]>(items: S): TupleSchema<S> =>
+    new TupleSchema(items),
+  record: <T>(values: Schema<T>): RecordSchema<T> => new RecordSchema(values),
+  union: <const S extends readonly Schema<unknown>[]>(options: S): UnionSchema<S> =>
+    new UnionSchema(options),
+});
@@ -0,0 +1,274 @@
+// @ts-nocheck - Deno imports are not recognized by TypeScript
+import { assertEquals } from 'jsr:@std/assert';
+import { Result } from './result.ts';
+import { AsyncResult } from './async-result.ts';
+import { CompositeError, NotFoundError, TimeoutError, ValidationError } from './errors.ts';
+import {
+  allAsync,
+  allSettled,
+  allSettledAsync,
+  anyAsync,
+  combineResults,
+  mapConcurrent,
+  partition,
+  partitionAsync,
+  sequence,
+  sequenceAsync,
+  traverse,
+  traverseAsync,
+  withTimeout,
+} from './utils.ts';
+
+/**
+ * Resolves with the given result after a number of milliseconds
+ */
+function delayed<T, E extends Error>(result: Result<T, E>, ms: number): Promise<Result<T, E>> {
+  return new Promise((resolve) => setTimeout(() => resolve(result), ms));
+}
+
+Deno.test('Utils - Collection combinators', async (t) => {
+  await t.step('combineResults and sequence return every value or the first error', () => {
+    const values = [Result.ok(1), Result.ok(2)];
+    const failed = [
+      Result.ok(1),
+      Result.fail(new Error('first')),
+      Result.fail(new Error('second')),
+    ];
+
+    assertEquals(combineResults(values).value, [1, 2]);
+    assertEquals(sequence(new Set(values)).value, [1, 2]);
+    assertEquals(sequence(failed).error.message, 'first');
+  });
+
+  await t.step('traverse stops at the first failure', () => {
+    const visited: number[] = [];
+    const result = traverse([1, 2, 3], (item, index) => {
+      visited.push(index);
+      return item === 2 ? Result.fail(new ValidationError('Two')) : Result.ok(item * 10);
+    });
+
+    assertEquals(result.error.message, 'Validation Error: Two');
+    assertEquals(visited, [0, 1]);
+    assertEquals(traverse([1, 2], (item) => Result.ok(item * 10)).value, [10, 20]);
+  });
+
+  await t.step('sequence and traverse keep a cancelled result cancelled', () => {
+    const cancelled = Result.cancelled('op-1');
+
+    assertEquals(sequence([Result.ok(1), cancelled]).isCancelled, true);
+    assertEquals(traverse([1, 2], (item) => item === 2 ? cancelled : Result.ok(item)), cancelled);
+  });
+
+  await t.step('partition splits successes and failures', () => {
+    const { successes, failures } = partition([
+      Result.ok(1),
+      Result.fail(new Error('a')),
+      Result.ok(2),
+      Result.fail(new Error('b')),
+    ]);
+
+    assertEquals(successes, [1, 2]);
+    assertEquals(failures.map((error) => error.message), ['a', 'b']);
+  });
+
+  await t.step('allSettled collects every error', () => {
+    const failed = allSettled([
+      Result.fail(new NotFoundError('User', '1')),
+      Result.ok(1),
+      Result.fail(new ValidationError('Bad input')),
+    ]);
+
+    assertEquals(failed.error instanceof CompositeError, true);
+    assertEquals(failed.error.errors.length, 2);
+    assertEquals(allSettled([Result.ok(1), Result.ok(2)]).value, [1, 2]);
+  });
+});
+
+Deno.test('Utils - Async collection combinators', async (t) => {
+  await t.step('allAsync combines tuples and records of promises', async () => {
+    const tuple = await allAsync([
+      delayed(Result.ok(1), 5),
+      AsyncResult.ok('two'),
+      Result.ok(true),
+    ]);
+    const record = await allAsync({ user: delayed(Result.ok('Ann'), 5), age: Result.ok(30) });
+
+    assertEquals(tuple.value, [1, 'two', true]);
+    assertEquals(record.value, { user: 'Ann', age: 30 });
+  });
+
+  await t.step('allAsync resolves with the first failure to settle', async () => {
+    const slow = delayed(Result.ok(1), 50);
+    const result = await allAsync([slow, delayed(Result.fail(new Error('fast')), 1)]);
+
+    assertEquals(result.error.message, 'fast');
+    await slow;
+  });
+
+  await t.step('allAsync turns rejections into failures', async () => {
+    const result = await allAsync([Result.ok(1), Promise.reject(new Error('rejected'))]);
+
+    assertEquals(result.error.message, 'rejected');
+  });
+
+  await t.step('anyAsync resolves with the first success or every error', async () => {
+    const success = await anyAsync([
+      delayed(Result.fail(new Error('a')), 1),
+      delayed(Result.ok(2), 5),
+    ]);
+    const failure = await anyAsync([
+      delayed(Result.fail(new Error('slow')), 5),
+      Result.fail(new Error('fast')),
+    ]);
+
+    assertEquals(success.value, 2);
+    assertEquals(failure.error.errors.map((error) => error.message), ['slow', 'fast']);
+  });
+
+  await t.step(
+    'sequenceAsync and traverseAsync return every value or the first error',
+    async () => {
+      const started: number[] = [];
+      const traversed = await traverseAsync([1, 2, 3], (item) => {
+        started.push(item);
+        return delayed(item === 2 ? Result.fail(new Error('two')) : Result.ok(item), 1);
+      });
+
+      assertEquals((await sequenceAsync([delayed(Result.ok(1), 1), Result.ok(2)])).value, [1, 2]);
+      assertEquals(traversed.error.message, 'two');
+      assertEquals(started, [1, 2]);
+      assertEquals((await sequenceAsync([Result.cancelled('op-1')])).isCancelled, true);
+      assertEquals((await traverseAsync([1], () => Result.cancelled('op-1'))).isCancelled, true);
+    },
+  );
+
+  await t.step('partitionAsync and allSettledAsync wait for every result', async () => {
+    const results = (): Promise<Result<number, Error>>[] => [
+      delayed(Result.ok(1), 5),
+      delayed(Result.fail(new Error('a')), 1),
+      Promise.resolve(Result.fail(new Error('b'))),
+    ];
+
+    const { successes, failures } = await partitionAsync(results());
+    const settled = await allSettledAsync(results());
+
+    assertEquals(successes, [1]);
+    assertEquals(failures.map((error) => error.message), ['a', 'b']);
+    assertEquals(settled.error.errors.length, 2);
+  });
+});
+
+Deno.test('Utils - mapConcurrent', async (t) => {
+  await t.step('limits parallelism and preserves input order', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapConcurrent([30, 10, 20, 5, 15], async (ms, index) => {
+      running++;
+      peak = Math.max(peak, running);
+      await delayed(Result.ok(null), ms);
+      running--;
+      return index === 3 ? Result.fail(new Error(`item ${index}`)) : Result.ok(ms * 2);
+    }, { concurrency: 2 });
+
+    assertEquals(peak, 2);
+    assertEquals(results.map((result) => result.isSuccess ? result.value : result.error.message), [
+      60,
+      20,
+      40,
+      'item 3',
+      30,
+    ]);
+  });
+
+  await t.step('stopOnFirstError cancels in-flight and unstarted items', async () => {
+    const started: number[] = [];
+
+    const results = await mapConcurrent([1, 2, 3, 4], (item) => {
+      started.push(item);
+      return item === 1
+        ? delayed(Result.fail(new Error('first')), 1)
+        : delayed(Result.ok(item), item === 2 ? 50 : 1);
+    }, { concurrency: 2, stopOnFirstError: true });
+
+    assertEquals(started, [1, 2]);
+    assertEquals(results[0].error.message, 'first');
+    assertEquals(results.slice(1).map((result) => result.isCancelled), [true, true, true]);
+  });
+
+  await t.step('aborting the signal cancels the remaining items', async () => {
+    const controller = new AbortController();
+    const signals: AbortSignal[] = [];
+
+    const results = await mapConcurrent([1, 2, 3], (item, _index, signal) => {
+      signals.push(signal);
+      if (item === 1) {
+        controller.abort();
+      }
+      return delayed(Result.ok(item), 5);
+    }, { concurrency: 1, signal: controller.signal });
+
+    assertEquals(results.map((result) => result.isCancelled), [true, true, true]);
+    assertEquals(signals.length, 1);
+    assertEquals(signals[0].aborted, true);
+  });
+
+  await t.step('reports thrown errors as failures of their item', async () => {
+    const results = await mapConcurrent([1, 2], (item) => {
+      if (item === 1) {
+        throw new Error('thrown');
+      }
+      return Result.ok(item);
+    });
+
+    assertEquals(results[0].error.message, 'thrown');
+    assertEquals(results[1].value, 2);
+  });
+});
+
+Deno.test('Utils - withTimeout', async (t) => {
+  await t.step('fails with a TimeoutError and aborts the operation', async () => {
+    let aborted: unknown;
+
+    const result = await withTimeout(
+      (signal) =>
+        new Promise((resolve) => {
+          signal.addEventListener('abort', () => {
+            aborted = signal.reason;
+            resolve(Result.ok('too late'));
+          });
+        }),
+      5,
+      { operation: 'fetchUser' },
+    );
+
+    assertEquals(result.error instanceof TimeoutError, true);
+    assertEquals(
+      result.error.message,
+      "Technical Error: Operation 'fetchUser' timed out after 5ms",
+    );
+    assertEquals(aborted, result.error);
+  });
+
+  await t.step('returns the result and clears the timer when it settles in time', async () => {
+    // A leaked 10s timer would fail this step through the test sanitizers
+    const result = await withTimeout(() => delayed(Result.ok(42), 1), 10_000);
+
+    assertEquals(result.value, 42);
+  });
+
+  await t.step('is cancelled when the signal is aborted first', async () => {
+    const controller = new AbortController();
+    const result = withTimeout(
+      (signal) =>
+        new Promise((resolve) => signal.addEventListener('abort', () => resolve(Result.ok(0)))),
+      10_000,
+      {
+        signal: controller.signal,
+      },
+    );
+    controller.abort();
+
+    assertEquals((await result).isCancelled, true);
+  });
+});
@@ -1,5 +1,19 @@
-import { Result } from './result.ts';
-import { TechnicalError } from './errors.ts';
+import { AsyncResult } from './async-result.ts';
+import type { Clock } from './clock.ts';
+import { type InferError, type InferValue, Result, type ResultValues } from './result.ts';
+import {
+  type CancellationError,
+  CompositeError,
+  TechnicalError,
+  type TimeoutError,
+} from './errors.ts';
+
+/**
+ * Re-types a failed result for a different success type, keeping its cancellation state
+ */
+function propagate<U, E extends Error>(failure: Result<unknown, E>): Result<U, E> {
+  return failure as unknown as Result<U, E>;
+}
 
 /**
  * Combines multiple result values into a single result containing an array of values
@@ -8,12 +22,36 @@ import { TechnicalError } from './errors.ts';
  */
 export function combineResults<T, E extends Error>(
   results: Result<T, E>[],
+): Result<T[], E> {
+  return sequence(results);
+}
+
+/**
+ * Turns an iterable of Results into a Result of an array, stopping at the first failure
+ * @param results Results to combine
+ * @returns A Result containing either every success value or the first error
+ */
+export function sequence<T, E extends Error>(results: Iterable<Result<T, E>>): Result<T[], E> {
+  return traverse(results, (result) => result);
+}
+
+/**
+ * Applies a Result-returning function to every item, stopping at the first failure
+ * @param items Items to process, in order
+ * @param f Function producing a Result for each item
+ * @returns A Result containing either every mapped value or the first error
+ */
+export function traverse<A, T, E extends Error>(
+  items: Iterable<A>,
+  f: (item: A, index: number) => Result<T, E>,
 ): Result<T[], E> {
   const values: T[] = [];
+  let index = 0;
 
-  for (const result of results) {
+  for (const item of items) {
+    const result = f(item, index++);
     if (result.isFailure) {
-      return Result.fail<T[], E>(result.error);
+      return propagate<T[], E>(result);
     }
     values.push(result.value);
   }
@@ -22,19 +60,331 @@ export function combineResults<T, E extends Error>(
 }
 
 /**
- * Runs an async function and converts the result to a Result
- * @param fn The async function to execute
- * @returns A Result containing either the function result or any error that occurred
+ * Splits Results into their success values and their errors, keeping the order of each
+ * @param results Results to split
+ * @returns The success values and the errors
  */
-export async function tryCatchAsync<T>(fn: () => Promise<T>): Promise<Result<T, Error>> {
+export function partition<T, E extends Error>(
+  results: Iterable<Result<T, E>>,
+): { successes: T[]; failures: E[] } {
+  const successes: T[] = [];
+  const failures: E[] = [];
+
+  for (const result of results) {
+    if (result.isSuccess) {
+      successes.push(result.value);
+    } else {
+      failures.push(result.error);
+    }
+  }
+
+  return { successes, failures };
+}
+
+/**
+ * Combines Results like `sequence`, but collects every error instead of stopping at the first
+ * @param results Results to combine
+ * @returns A Result containing either every success value or a CompositeError of all errors
+ */
+export function allSettled<T, E extends Error>(
+  results: Iterable<Result<T, E>>,
+): Result<T[], CompositeError<E>> {
+  const { successes, failures } = partition(results);
+
+  return failures.length === 0
+    ? Result.ok<T[], CompositeError<E>>(successes)
+    : Result.fail<T[], CompositeError<E>>(new CompositeError(failures));
+}
+
+/**
+ * A Result, or a promise (or AsyncResult) of one
+ */
+type MaybeAsyncResult = Result<unknown, Error> | PromiseLike<Result<unknown, Error>>;
+
+/**
+ * Waits for every Result, resolving early with the first failure to settle.
+ * The returned Results are in input order.
+ */
+function settleUntilFailure(
+  results: readonly MaybeAsyncResult[],
+): Promise<Result<unknown, Error>[] | Result<unknown, Error>> {
+  return new Promise((resolve) => {
+    const settled: Result<unknown, Error>[] = new Array(results.length);
+    let pending = results.length;
+
+    if (pending === 0) {
+      resolve(settled);
+      return;
+    }
+
+    results.forEach((item, index) => {
+      AsyncResult.from(item).then((result) => {
+        if (result.isFailure) {
+          resolve(result);
+          return;
+        }
+        settled[index] = result;
+        if (--pending === 0) {
+          resolve(settled);
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Combines a tuple, array or record of Results or promises of Results into a single AsyncResult,
+ * like `Result.all`. Resolves with the first failure as soon as it settles.
+ * @param results Results (or promises of Results) to combine
+ * @returns An AsyncResult of the same shape holding every success value, or the first failure
+ */
+export function allAsync<const R extends readonly MaybeAsyncResult[]>(
+  results: R,
+): AsyncResult<ResultValues<{ [K in keyof R]: Awaited<R[K]> }>, InferError<Awaited<R[number]>>>;
+export function allAsync<R extends Readonly<Record<string, MaybeAsyncResult>>>(
+  results: R,
+): AsyncResult<ResultValues<{ [K in keyof R]: Awaited<R[K]> }>, InferError<Awaited<R[keyof R]>>>;
+export function allAsync(
+  results: readonly MaybeAsyncResult[] | Readonly<Record<string, MaybeAsyncResult>>,
+): AsyncResult<unknown, Error> {
+  const keys = Array.isArray(results) ? undefined : Object.keys(results);
+  const items = keys
+    ? keys.map((key) => (results as Record<string, MaybeAsyncResult>)[key])
+    : results as readonly MaybeAsyncResult[];
+
+  return AsyncResult.from(
+    settleUntilFailure(items).then((settled) => {
+      if (!Array.isArray(settled)) {
+        return settled;
+      }
+      return keys
+        ? Result.all(Object.fromEntries(keys.map((key, index) => [key, settled[index]])))
+        : Result.all(settled);
+    }),
+  );
+}
+
+/**
+ * Resolves with the first Result to succeed, like `Result.any`, or with a CompositeError holding
+ * every error (in input order) once all of them have failed
+ * @param results Results (or promises of Results) to race
+ * @returns An AsyncResult of the first success value
+ */
+export function anyAsync<const R extends readonly MaybeAsyncResult[]>(
+  results: R,
+): AsyncResult<InferValue<Awaited<R[number]>>, CompositeError<InferError<Awaited<R[number]>>>> {
+  type Value = InferValue<Awaited<R[number]>>;
+  type Failure = CompositeError<InferError<Awaited<R[number]>>>;
+
+  return AsyncResult.from(
+    new Promise<Result<Value, Failure>>((resolve) => {
+      const failed: Result<unknown, Error>[] = new Array(results.length);
+      let pending = results.length;
+
+      if (pending === 0) {
+        resolve(Result.any([]));
+        return;
+      }
+
+      results.forEach((item, index) => {
+        AsyncResult.from(item).then((result) => {
+          if (result.isSuccess) {
+            resolve(Result.ok(result.value as Value));
+            return;
+          }
+          failed[index] = result;
+          if (--pending === 0) {
+            resolve(Result.any(failed) as Result<Value, Failure>);
+          }
+        });
+      });
+    }),
+  );
+}
+
+/**
+ * Turns an iterable of Results or promises of Results into an AsyncResult of an array,
+ * resolving with the first failure as soon as it settles
+ * @param results Results (or promises of Results) to combine
+ * @returns An AsyncResult containing either every success value or the first error
+ */
+export function sequenceAsync<T, E extends Error>(
+  results: Iterable<Result<T, E> | PromiseLike<Result<T, E>>>,
+): AsyncResult<T[], E> {
+  return allAsync([...results]) as AsyncResult<T[], E>;
+}
+
+/**
+ * Applies an async Result-returning function to every item one after another, stopping at the
+ * first failure. Later items are not started once an item has failed.
+ * @param items Items to process, in order
+ * @param f Function producing a Result (or a promise of one) for each item
+ * @returns An AsyncResult containing either every mapped value or the first error
+ */
+export function traverseAsync<A, T, E extends Error>(
+  items: Iterable<A>,
+  f: (item: A, index: number) => Result<T, E> | PromiseLike<Result<T, E>>,
+): AsyncResult<T[], E> {
+  return AsyncResult.from(
+    (async (): Promise<Result<T[], E>> => {
+      const values: T[] = [];
+      let index = 0;
+
+      for (const item of items) {
+        const result = await f(item, index++);
+        if (result.isFailure) {
+          return propagate<T[], E>(result);
+        }
+        values.push(result.value);
+      }
+
+      return Result.ok<T[], E>(values);
+    })(),
+  );
+}
+
+/**
+ * Maps items with an async Result-returning function, running at most `concurrency` of them at
+ * once. The outcome of every item is reported in input order.
+ *
+ * Aborting `signal` cancels the run: items that haven't started yet and items still in flight
+ * resolve to cancelled results. With `stopOnFirstError`, the first failure cancels the remaining
+ * items in the same way. `fn` receives an AbortSignal that is aborted when the run is cancelled,
+ * so it can stop its own work.
+ *
+ * @param items Items to process
+ * @param fn Function producing a Result (or a promise of one) for each item
+ * @param options Concurrency limit (default: unbounded), whether to stop on the first failure and
+ * an optional AbortSignal
+ * @returns A promise of one Result per item, in input order
+ *
+ * @example
+ * ```typescript
+ * const results = await mapConcurrent(userIds, (id, _, signal) => fetchUser(id, signal), {
+ *   concurrency: 8,
+ * });
+ * const { successes, failures } = partition(results);
+ * ```
+ */
+export async function mapConcurrent<A, T, E extends Error>(
+  items: Iterable<A>,
+  fn: (item: A, index: number, signal: AbortSignal) => Result<T, E> | PromiseLike<Result<T, E>>,
+  options: { concurrency?: number; stopOnFirstError?: boolean; signal?: AbortSignal } = {},
+): Promise<Result<T, E | CancellationError>[]> {
+  const { concurrency = Infinity, stopOnFirstError = false, signal } = options;
+  if (!(concurrency >= 1)) {
+    throw new RangeError(`Concurrency must be at least 1, got ${concurrency}`);
+  }
+
+  const input = [...items];
+  const results: Result<T, E | CancellationError>[] = new Array(input.length);
+  const controller = new AbortController();
+  const onAbort = (): void => controller.abort();
+
+  if (signal?.aborted) {
+    onAbort();
+  }
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < input.length) {
+      const index = next++;
+      const result = await Result.ok<A, E>(input[index])
+        .toAsync(controller.signal)
+        .flatMap((item) => fn(item, index, controller.signal));
+
+      results[index] = result;
+      if (stopOnFirstError && result.isFailure && !result.isCancelled) {
+        controller.abort();
+      }
+    }
+  };
+
   try {
-    const result = await fn();
-    return Result.ok<T, Error>(result);
-  } catch (error) {
-    return Result.fail<T, Error>(
-      error instanceof Error ? error : new TechnicalError(String(error)),
-    );
+    await Promise.all(Array.from({ length: Math.min(concurrency, input.length) }, worker));
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
   }
+
+  return results;
+}
+
+/**
+ * Waits for every Result and splits them into success values and errors, like `partition`
+ * @param results Results (or promises of Results) to split
+ * @returns A promise of the success values and the errors
+ */
+export async function partitionAsync<T, E extends Error>(
+  results: Iterable<Result<T, E> | PromiseLike<Result<T, E>>>,
+): Promise<{ successes: T[]; failures: E[] }> {
+  return partition(await Promise.all([...results].map((item) => AsyncResult.from(item))));
+}
+
+/**
+ * Waits for every Result and collects every error, like `allSettled`
+ * @param results Results (or promises of Results) to combine
+ * @returns An AsyncResult of every success value, or a CompositeError of all errors
+ */
+export function allSettledAsync<T, E extends Error>(
+  results: Iterable<Result<T, E> | PromiseLike<Result<T, E>>>,
+): AsyncResult<T[], CompositeError<E>> {
+  return AsyncResult.from(
+    Promise.all([...results].map((item) => AsyncResult.from(item))).then(allSettled),
+  );
+}
+
+/**
+ * Runs an async function and converts the result to a Result
+ * @param fn The async function to execute
+ * @returns An AsyncResult containing either the function result or any error that occurred
+ */
+export function tryCatchAsync<T>(fn: () => PromiseLike<T>): AsyncResult<T, Error> {
+  return AsyncResult.from(
+    (async (): Promise<Result<T, Error>> => {
+      try {
+        const result = await fn();
+        return Result.ok<T, Error>(result);
+      } catch (error) {
+        return Result.fail<T, Error>(
+          error instanceof Error ? error : new TechnicalError(String(error)),
+        );
+      }
+    })(),
+  );
+}
+
+/**
+ * Runs an operation with a time limit.
+ * If it doesn't settle within `ms`, the result fails with a TimeoutError naming the operation and
+ * the signal passed to `fn` is aborted so the underlying work can stop. The timer is cleared as
+ * soon as the operation settles.
+ * @param fn Operation to run, receiving a signal aborted on timeout or cancellation
+ * @param ms Time limit in milliseconds
+ * @param options Name of the operation, an optional AbortSignal and an optional clock
+ * @returns An AsyncResult of the operation, or a TimeoutError failure
+ *
+ * @example
+ * ```typescript
+ * const user = await withTimeout(
+ *   (signal) => tryCatchAsync(() => fetch(`/api/users/${id}`, { signal }).then((r) => r.json())),
+ *   5000,
+ *   { operation: 'fetchUser' },
+ * );
+ * ```
+ */
+export function withTimeout<T, E extends Error = Error>(
+  fn: (signal: AbortSignal) => Result<T, E> | PromiseLike<Result<T, E>>,
+  ms: number,
+  options: { operation?: string; signal?: AbortSignal; clock?: Clock } = {},
+): AsyncResult<T, E | TimeoutError> {
+  return Result.ok<undefined, E>(undefined)
+    .toAsync(options.signal)
+    .flatMap((_, signal) => fn(signal), {
+      timeoutMs: ms,
+      operation: options.operation,
+      clock: options.clock,
+    });
 }
 
 /**
@@ -48,34 +398,36 @@ type NodeCallback<T> = (error: Error | null, result: T) => void;
 type NodeCallbackArgs = unknown[];
 
 /**
- * Wraps a callback-style function to return a Promise<Result>
+ * Wraps a callback-style function to return an AsyncResult
  * @param fn Function with a Node.js style callback (error, result)
  * @param args Arguments to pass to the function
- * @returns Promise that resolves to a Result
+ * @returns AsyncResult that resolves to a Result
  */
 export function promisifyWithResult<T>(
   fn: (...args: [...NodeCallbackArgs, NodeCallback<T>]) => void,
   ...args: NodeCallbackArgs
-): Promise<Result<T, Error>> {
-  return new Promise((resolve) => {
-    try {
-      fn(...args, (error: Error | null, result: T) => {
-        if (error) {
-          resolve(
-            Result.fail<T, Error>(
-              error instanceof Error ? error : new TechnicalError(String(error)),
-            ),
-          );
-        } else {
-          resolve(Result.ok<T, Error>(result));
-        }
-      });
-    } catch (error) {
-      resolve(
-        Result.fail<T, Error>(error instanceof Error ? error : new TechnicalError(String(error))),
-      );
-    }
-  });
+): AsyncResult<T, Error> {
+  return AsyncResult.from(
+    new Promise<Result<T, Error>>((resolve) => {
+      try {
+        fn(...args, (error: Error | null, result: T) => {
+          if (error) {
+            resolve(
+              Result.fail<T, Error>(
+                error instanceof Error ? error : new TechnicalError(String(error)),
+              ),
+            );
+          } else {
+            resolve(Result.ok<T, Error>(result));
+          }
+        });
+      } catch (error) {
+        resolve(
+          Result.fail<T, Error>(error instanceof Error ? error : new TechnicalError(String(error))),
+        );
+      }
+    }),
+  );
 }
 
 /**
@@ -120,41 +472,3 @@ export function withFallback<T, E extends Error>(
 ): Result<T, E> {
   return result.isSuccess ? result : Result.ok<T, E>(fallbackValue);
 }
-
-/**
- * Attempt to execute a function multiple times until it succeeds
- * @param fn Function to retry
- * @param options Options for retry behavior
- * @returns Result of the function execution
- */
-export async function retry<T>(
-  fn: () => Promise<Result<T, Error>>,
-  options: { maxAttempts?: number; delayMs?: number } = {},
-): Promise<Result<T, Error>> {
-  const maxAttempts = options.maxAttempts ?? 3;
-  let currentDelay = options.delayMs ?? 300;
-  let lastError: Error | undefined;
-
-  for (let attempt = 0; attempt <= maxAttempts; attempt++) {
-    try {
-      const result = await fn();
-      if (result.isSuccess) {
-        return result;
-      }
-      lastError = result.error;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new TechnicalError(String(error));
-    }
-
-    if (attempt < maxAttempts) {
-      await new Promise((resolve) => setTimeout(resolve, currentDelay));
-      // Exponential backoff
-      const nextDelay = currentDelay * 2;
-      currentDelay = nextDelay;
-    }
-  }
-
-  return Result.fail<T, Error>(
-    lastError || new TechnicalError(`Failed after ${maxAttempts} attempts`),
-  );
-}
@@ -0,0 +1,619 @@
+// @ts-nocheck - Deno imports are not recognized by TypeScript
+import { assertEquals, assertThrows } from 'jsr:@std/assert';
+import { lazy, validate, type Validator, type ValidatorOptions } from './validation.ts';
+import type { Result } from './result.ts';
+import { TechnicalError, type ValidationError } from './errors.ts';
+
+interface Order {
+  id: string;
+  customer: { name: string; email: string };
+  items: { name: string; price: number }[];
+}
+
+const validOrder: Order = {
+  id: 'order-1',
+  customer: { name: 'Ann', email: 'ann@example.com' },
+  items: [{ name: 'Book', price: 10 }],
+};
+
+/**
+ * Validates an order with nested and array rules
+ */
+function validateOrder(order: Order): Result<Order, ValidationError> {
+  return validate(order)
+    .property('id', (id) => id.notEmpty())
+    .nested('customer', (customer) =>
+      customer
+        .property('name', (name) => name.notEmpty().maxLength(3))
+        .property('email', (email) => email.email()))
+    .array<Order['items'][number]>('items', (item) =>
+      item
+        .property('name', (name) => name.notEmpty())
+        .property('price', (price) => price.isNumber().min(0.01)))
+    .validate();
+}
+
+Deno.test('Validator - Issues', async (t) => {
+  await t.step('succeeds without issues', () => {
+    assertEquals(validateOrder(validOrder).value, validOrder);
+  });
+
+  await t.step('locates every failed rule by its path', () => {
+    const result = validateOrder({
+      id: '',
+      customer: { name: 'Annabelle', email: 'nope' },
+      items: [{ name: 'Book', price: 10 }, { name: '', price: 0 }],
+    });
+
+    assertEquals(result.error.issues, [
+      { path: ['id'], code: 'notEmpty', message: 'id cannot be empty' },
+      {
+        path: ['customer', 'name'],
+        code: 'maxLength',
+        message: 'customer.name cannot exceed 3 characters',
+        params: { length: 3 },
+      },
+      {
+        path: ['customer', 'email'],
+        code: 'email',
+        message: 'customer.email must be a valid email address',
+      },
+      { path: ['items', 1, 'name'], code: 'notEmpty', message: 'items[1].name cannot be empty' },
+      {
+        path: ['items', 1, 'price'],
+        code: 'min',
+        message: 'items[1].price must be at least 0.01',
+        params: { min: 0.01 },
+      },
+    ]);
+    assertEquals(
+      result.error.message,
+      'Validation Error: id cannot be empty, customer.name cannot exceed 3 characters, ' +
+        'customer.email must be a valid email address, items[1].name cannot be empty, ' +
+        'items[1].price must be at least 0.01',
+    );
+  });
+
+  await t.step('flattens issues by path for forms', () => {
+    const result = validate({ name: '' })
+      .property('name', (name) => name.notEmpty().minLength(2))
+      .validate();
+
+    assertEquals(result.error.flatten(), {
+      name: ['name cannot be empty', 'name must be at least 2 characters'],
+    });
+  });
+
+  await t.step('flattens paths named like inherited object members', () => {
+    const result = validate({ toString: '', constructor: '' })
+      .record((key) => key, (value) => value.notEmpty())
+      .validate();
+
+    assertEquals(result.error.flatten(), {
+      toString: ['toString cannot be empty'],
+      constructor: ['constructor cannot be empty'],
+    });
+  });
+
+  await t.step('reports rules on the validated value itself with an empty path', () => {
+    const result = validate(5).min(10).validate();
+
+    assertEquals(result.error.issues, [
+      { path: [], code: 'min', message: 'value must be at least 10', params: { min: 10 } },
+    ]);
+    assertEquals(result.error.flatten(), { '': ['value must be at least 10'] });
+  });
+
+  await t.step('uses custom messages', () => {
+    const result = validate({ age: 12 })
+      .property('age', (age) => age.withMessage('Too young: {path}').min(18))
+      .validate();
+
+    assertEquals(result.error.issues[0].message, 'Too young: age');
+    assertEquals(result.error.issues[0].code, 'min');
+  });
+});
+
+Deno.test('Validator - Async rules', async (t) => {
+  const taken = new Set(['ann@example.com']);
+
+  /**
+   * Checks that an email address isn't registered yet
+   */
+  function isAvailable(email: string): Promise<boolean> {
+    return Promise.resolve(!taken.has(email));
+  }
+
+  await t.step('merges async issues with sync ones under their path', async () => {
+    const result = await validate({ name: '', email: 'ann@example.com' })
+      .property('name', (name) => name.notEmpty())
+      .property('email', (email) => email.customAsync(isAvailable, '{path} is already registered'))
+      .validateAsync();
+
+    assertEquals(result.error.issues, [
+      { path: ['name'], code: 'notEmpty', message: 'name cannot be empty' },
+      { path: ['email'], code: 'custom', message: 'email is already registered' },
+    ]);
+  });
+
+  await t.step('skips async rules of values that failed a sync rule', async () => {
+    let calls = 0;
+    const result = await validate('nope')
+      .email()
+      .customAsync(() => {
+        calls++;
+        return Promise.resolve(true);
+      })
+      .validateAsync();
+
+    assertEquals(result.error.issues.map((issue) => issue.code), ['email']);
+    assertEquals(calls, 0);
+  });
+
+  await t.step('fails with a TechnicalError when a predicate rejects', async () => {
+    const outage = new Error('Database unavailable');
+    const result = await validate({ email: 'bob@example.com' })
+      .property('email', (email) => email.customAsync(() => Promise.reject(outage)))
+      .validateAsync();
+
+    assertEquals(result.error instanceof TechnicalError, true);
+    assertEquals(result.error.message, 'Technical Error: Asynchronous rule of email rejected');
+    assertEquals(result.error.cause, outage);
+  });
+
+  await t.step('cancels running rules when the signal is aborted', async () => {
+    const controller = new AbortController();
+    let ruleSignal;
+    let started;
+    const running = new Promise((resolve) => started = resolve);
+    const pending = validate('bob@example.com')
+      .customAsync((_, signal) => {
+        ruleSignal = signal;
+        started();
+        return new Promise(() => {});
+      })
+      .validateAsync(controller.signal);
+
+    await running;
+    controller.abort();
+    const result = await pending;
+
+    assertEquals(result.isCancelled, true);
+    assertEquals(ruleSignal.aborted, true);
+  });
+});
+
+Deno.test('Validator - Cross-field rules', async (t) => {
+  interface Company {
+    country: string;
+    vatNumber?: string;
+    booking: { startDate: number; endDate: number };
+  }
+
+  /**
+   * Requires a VAT number for EU companies and bookings that end after they start
+   */
+  function validateCompany(company: Company): Result<Company, ValidationError> {
+    return validate(company)
+      .property('country', (country) => country.notEmpty())
+      .dependsOn('vatNumber', ['country'], (vatNumber, { country }) =>
+        vatNumber.when(
+          () => ['DE', 'PL'].includes(country),
+          (v) => v.required(),
+          (v) => v.custom((vat) => vat === undefined, '{path} is only used in the EU'),
+        ))
+      .refine((c) => c.booking.endDate > c.booking.startDate, {
+        path: 'booking.endDate',
+        message: '{path} must be after the start date',
+      })
+      .validate();
+  }
+
+  await t.step('applies the rules of the branch matching the condition', () => {
+    const booking = { startDate: 1, endDate: 2 };
+
+    assertEquals(validateCompany({ country: 'DE', vatNumber: 'DE1', booking }).isSuccess, true);
+    assertEquals(validateCompany({ country: 'DE', booking }).error.issues, [
+      { path: ['vatNumber'], code: 'required', message: 'vatNumber is required' },
+    ]);
+    assertEquals(validateCompany({ country: 'US', vatNumber: 'X', booking }).error.issues, [
+      { path: ['vatNumber'], code: 'custom', message: 'vatNumber is only used in the EU' },
+    ]);
+  });
+
+  await t.step('skips dependent rules when a dependency failed', () => {
+    const result = validateCompany({ country: '', booking: { startDate: 1, endDate: 2 } });
+
+    assertEquals(result.error.issues.map((issue) => issue.code), ['notEmpty']);
+  });
+
+  await t.step('reports refinements at the given path', () => {
+    const result = validateCompany({
+      country: 'DE',
+      vatNumber: 'DE1',
+      booking: { startDate: 2, endDate: 1 },
+    });
+
+    assertEquals(result.error.issues, [
+      {
+        path: ['booking', 'endDate'],
+        code: 'custom',
+        message: 'booking.endDate must be after the start date',
+      },
+    ]);
+  });
+});
+
+Deno.test('Validator - Transforms', async (t) => {
+  await t.step('returns the normalized value', () => {
+    const query = { page: '2', q: '  Books ', since: '2024-01-01', debug: 'true' };
+
+    const result = validate(query)
+      .property('page', (page) => page.coerceNumber().min(1))
+      .property('q', (q) => q.trim().toLowerCase().notEmpty())
+      .property('since', (since) => since.coerceDate())
+      .stripUnknownKeys()
+      .validate();
+
+    assertEquals(result.value, { page: 2, q: 'books', since: new Date('2024-01-01') });
+    assertEquals(query.page, '2');
+  });
+
+  await t.step('keeps properties with rules added after stripUnknownKeys', () => {
+    const result = validate({ a: 1, b: { c: 2, d: 3 }, e: 4 })
+      .stripUnknownKeys()
+      .property('a', (a) => a.required())
+      .property('b', (b) => b.stripUnknownKeys().property('c', (c) => c.min(0)))
+      .validate();
+
+    assertEquals(result.value, { a: 1, b: { c: 2 } });
+  });
+
+  await t.step('applies defaults to undefined values only', () => {
+    const result = validate<{ page?: string; size?: string }>({ size: '' })
+      .property('page', (page) => page.default('1'))
+      .property('size', (size) => size.default('20'))
+      .validate();
+
+    assertEquals(result.value, { page: '1', size: '' });
+  });
+
+  await t.step('reports values that cannot be coerced', () => {
+    const result = validate({ page: 'two', since: 'soon', items: ['1', 'x'] })
+      .property('page', (page) => page.coerceNumber())
+      .property('since', (since) => since.coerceDate())
+      .array<string, number>('items', (item) => item.coerceNumber())
+      .validate();
+
+    assertEquals(result.error.issues, [
+      { path: ['page'], code: 'isNumber', message: 'page must be a number' },
+      { path: ['since'], code: 'isDate', message: 'since must be a valid date' },
+      { path: ['items', 1], code: 'isNumber', message: 'items[1] must be a number' },
+    ]);
+  });
+
+  await t.step('keeps the original object when nothing changed', () => {
+    assertEquals(validateOrder(validOrder).value === validOrder, true);
+  });
+});
+
+Deno.test('Validator - Rule library', async (t) => {
+  /**
+   * Returns the codes of the rules a value fails
+   */
+  function failedCodes(validator: Validator<unknown>): string[] {
+    const result = validator.validate();
+    return result.isSuccess ? [] : result.error.issues.map((issue) => issue.code);
+  }
+
+  await t.step('checks string formats', () => {
+    assertEquals(failedCodes(validate('https://example.com/a?b=1').url().startsWith('https')), []);
+    assertEquals(failedCodes(validate('example.com').url().endsWith('.org')), ['url', 'endsWith']);
+    assertEquals(failedCodes(validate('0f8fad5b-d9cb-469f-a165-70867728950e').uuid()), []);
+    assertEquals(failedCodes(validate('0f8fad5b-d9cb-469f-a165').uuid()), ['uuid']);
+    assertEquals(failedCodes(validate('2024-01-31T10:00:00Z').isoDate()), []);
+    assertEquals(failedCodes(validate('31/01/2024').isoDate().json()), ['isoDate', 'json']);
+    assertEquals(failedCodes(validate('2024-02-29').isoDate()), []);
+    assertEquals(failedCodes(validate('2024-02-30').isoDate()), ['isoDate']);
+    assertEquals(failedCodes(validate('2023-02-29T10:00:00Z').isoDate()), ['isoDate']);
+    assertEquals(failedCodes(validate('{"a":1}').json().length(7)), []);
+  });
+
+  await t.step('checks IP addresses by version', () => {
+    assertEquals(failedCodes(validate('192.168.0.1').ip().ip(4)), []);
+    assertEquals(failedCodes(validate('2001:db8::1').ip().ip(6)), []);
+    assertEquals(failedCodes(validate('256.1.1.1').ip()), ['ip']);
+    assertEquals(failedCodes(validate('192.168.0.1').ip(6)), ['ip']);
+    assertEquals(failedCodes(validate('1::]@evil.com/[::1').ip(6)), ['ip']);
+    assertEquals(failedCodes(validate('::1]/x?[').ip()), ['ip']);
+  });
+
+  await t.step('checks numbers', () => {
+    assertEquals(failedCodes(validate(0.3).positive().multipleOf(0.1)), []);
+    assertEquals(failedCodes(validate(1.5).isInteger().negative().multipleOf(1)), [
+      'isInteger',
+      'negative',
+      'multipleOf',
+    ]);
+    assertEquals(failedCodes(validate('1').isInteger()), ['isInteger']);
+  });
+
+  await t.step('checks types, dates and arrays', () => {
+    const now = new Date('2024-06-01');
+
+    assertEquals(failedCodes(validate(true).isBoolean()), []);
+    assertEquals(failedCodes(validate(1).isString().isBoolean().isArray().isDate()), [
+      'isString',
+      'isBoolean',
+      'isArray',
+      'isDate',
+    ]);
+    assertEquals(failedCodes(validate(now).isDate().after(new Date('2024-01-01'))), []);
+    assertEquals(failedCodes(validate(now).before(now)), ['before']);
+    assertEquals(failedCodes(validate([1, 2]).minItems(1).maxItems(2).unique()), []);
+    assertEquals(failedCodes(validate([1, 1, 2]).maxItems(2).unique()), ['maxItems', 'unique']);
+    assertEquals(
+      failedCodes(validate([{ id: 1 }, { id: 1 }]).unique((item: { id: number }) => item.id)),
+      ['unique'],
+    );
+  });
+
+  await t.step('reports rule parameters and overridable messages', () => {
+    const result = validate(7)
+      .multipleOf(5)
+      .withMessage('Pick a multiple of {step}')
+      .multipleOf(2)
+      .validate();
+
+    assertEquals(result.error.issues, [
+      {
+        path: [],
+        code: 'multipleOf',
+        message: 'value must be a multiple of 5',
+        params: { step: 5 },
+      },
+      { path: [], code: 'multipleOf', message: 'Pick a multiple of 2', params: { step: 2 } },
+    ]);
+  });
+});
+
+Deno.test('Validator - Messages', async (t) => {
+  const polish = {
+    required: '{path} jest wymagane',
+    min: '{path} musi wynosić co najmniej {min}',
+    oneOf: '{path} musi być jednym z: {allowed}',
+  };
+
+  await t.step('renders messages from the catalog of the call', () => {
+    const validator = validate({ price: 0.5, currency: 'USD' })
+      .property('price', (price) => price.min(1.5))
+      .property('currency', (currency) => currency.oneOf(['PLN', 'EUR']));
+
+    assertEquals(validator.validate({ locale: 'pl', messages: polish }).error.issues, [
+      {
+        path: ['price'],
+        code: 'min',
+        message: 'price musi wynosić co najmniej 1,5',
+        params: { min: 1.5 },
+      },
+      {
+        path: ['currency'],
+        code: 'oneOf',
+        message: 'currency musi być jednym z: PLN, EUR',
+        params: { allowed: ['PLN', 'EUR'] },
+      },
+    ]);
+    assertEquals(validator.validate().error.issues[0].message, 'price must be at least 1.5');
+  });
+
+  await t.step('falls back to English for codes missing from the catalog', () => {
+    const result = validate('x').email().validate({ messages: polish });
+
+    assertEquals(result.error.issues[0].message, 'value must be a valid email address');
+  });
+
+  await t.step('prefers custom messages, then the formatter', () => {
+    const formatter = (issue, locale) =>
+      issue.code === 'notEmpty' ? `${locale}:${issue.code}` : undefined;
+
+    const result = validate({ name: '', nickname: '', age: undefined })
+      .property('name', (name) => name.notEmpty())
+      .property('nickname', (nickname) => nickname.withMessage('Podaj pseudonim').notEmpty())
+      .property('age', (age) => age.required())
+      .validate({ locale: 'pl', messages: polish, formatter });
+
+    assertEquals(result.error.issues.map((issue) => issue.message), [
+      'pl:notEmpty',
+      'Podaj pseudonim',
+      'age jest wymagane',
+    ]);
+  });
+});
+
+Deno.test('Validator - Structures', async (t) => {
+  type Shape = { kind: 'circle'; radius: number } | { kind: 'rect'; width: number; height: number };
+
+  /**
+   * Validates the fields of each kind of shape
+   */
+  function validateShapes(shapes: Shape[]): Result<{ shapes: Shape[] }, ValidationError> {
+    return validate({ shapes })
+      .array<Shape>('shapes', (shape) =>
+        shape.union('kind', {
+          circle: (circle) => circle.property('radius', (radius) => radius.positive()),
+          rect: (rect) =>
+            rect
+              .property('width', (width) => width.positive())
+              .property('height', (height) => height.positive()),
+        }))
+      .validate();
+  }
+
+  await t.step('applies the rules of the member selected by the discriminant', () => {
+    const result = validateShapes([
+      { kind: 'circle', radius: 1 },
+      { kind: 'rect', width: 0, height: 2 },
+      { kind: 'star' } as unknown as Shape,
+    ]);
+
+    assertEquals(result.error.issues, [
+      {
+        path: ['shapes', 1, 'width'],
+        code: 'positive',
+        message: 'shapes[1].width must be positive',
+      },
+      {
+        path: ['shapes', 2, 'kind'],
+        code: 'oneOf',
+        message: 'shapes[2].kind must be one of: circle, rect',
+        params: { allowed: ['circle', 'rect'] },
+      },
+    ]);
+  });
+
+  await t.step('validates the keys and values of records', () => {
+    const result = validate({ 'ABC-1': 10, 'abc': -1 })
+      .record((sku) => sku.matches(/^[A-Z]+-\d+$/), (price) => price.positive())
+      .validate();
+
+    assertEquals(result.error.issues.map((issue) => [issue.path, issue.code]), [
+      [['abc'], 'matches'],
+      [['abc'], 'positive'],
+    ]);
+    assertEquals(
+      validate([]).record((key) => key, (value) => value).validate().error.issues[0].code,
+      'isObject',
+    );
+  });
+
+  await t.step('validates tuples by position', () => {
+    /**
+     * Validates a latitude and longitude pair
+     */
+    function validatePoint(point: [number, number]): Result<[number, number], ValidationError> {
+      return validate(point)
+        .tuple([
+          (latitude) => latitude.min(-90).max(90),
+          (longitude) => longitude.min(-180).max(180),
+        ])
+        .validate();
+    }
+
+    assertEquals(validatePoint([52.2, 21]).value, [52.2, 21]);
+    assertEquals(validatePoint([91, 200]).error.issues.map((issue) => issue.path), [[0], [1]]);
+    assertEquals(validatePoint([1] as unknown as [number, number]).error.issues[0].code, 'length');
+  });
+
+  await t.step('validates recursive structures up to a depth limit', () => {
+    interface Comment {
+      text: string;
+      replies: Comment[];
+    }
+
+    const validateComment: (comment: Validator<Comment>) => Validator<Comment> = lazy(
+      (comment) =>
+        comment
+          .property('text', (text) => text.notEmpty())
+          .array<Comment>('replies', validateComment),
+      { maxDepth: 3 },
+    );
+    const reply = (text: string, replies: Comment[] = []): Comment => ({ text, replies });
+
+    const thread = reply('a', [reply('b'), reply('c', [reply('')])]);
+    assertEquals(validateComment(validate(thread)).validate().error.issues, [
+      {
+        path: ['replies', 1, 'replies', 0, 'text'],
+        code: 'notEmpty',
+        message: 'replies[1].replies[0].text cannot be empty',
+      },
+    ]);
+
+    const deep = reply('a', [reply('b', [reply('c', [reply('d')])])]);
+    assertEquals(validateComment(validate(deep)).validate().error.issues, [
+      {
+        path: ['replies', 0, 'replies', 0, 'replies', 0],
+        code: 'maxDepth',
+        message: 'replies[0].replies[0].replies[0] exceeds the maximum nesting depth of 3',
+        params: { maxDepth: 3 },
+      },
+    ]);
+  });
+});
+
+Deno.test('Validator - Limits', async (t) => {
+  const rows = Array.from({ length: 1000 }, (_, index) => ({ sku: '', qty: index % 2 ? -1 : 1 }));
+
+  /**
+   * Validates imported rows with the given limits, counting the items that were validated
+   */
+  function validateRows(options: ValidatorOptions): { codes: string[]; validated: number } {
+    let validated = 0;
+    const result = validate({ rows }, options)
+      .array<(typeof rows)[number]>('rows', (row) => {
+        validated++;
+        return row
+          .property('sku', (sku) => sku.required().notEmpty().minLength(3))
+          .property('qty', (qty) => qty.positive());
+      })
+      .validate();
+    return { codes: result.error.issues.map((issue) => issue.code), validated };
+  }
+
+  await t.step('abortEarly stops at the first issue', () => {
+    assertEquals(validateRows({ abortEarly: true }), { codes: ['notEmpty'], validated: 1 });
+  });
+
+  await t.step('maxErrors stops once the limit is reached', () => {
+    assertEquals(validateRows({ maxErrors: 5 }), {
+      codes: ['notEmpty', 'minLength', 'notEmpty', 'minLength', 'positive'],
+      validated: 2,
+    });
+    assertThrows(() => validate({}, { maxErrors: 0 }), RangeError);
+  });
+
+  await t.step('bail reports at most one issue per value', () => {
+    const { codes, validated } = validateRows({ bail: true });
+
+    assertEquals(codes.slice(0, 3), ['notEmpty', 'notEmpty', 'positive']);
+    assertEquals(codes.length, 1500);
+    assertEquals(validated, 1000);
+  });
+
+  await t.step('skips refine and union once validation stopped', () => {
+    const calls: string[] = [];
+    const failing = (name: string) => (): boolean => {
+      calls.push(name);
+      return false;
+    };
+
+    const stopped = validate({ kind: 'circle', radius: -1 }, { abortEarly: true })
+      .property('radius', (radius) => radius.positive())
+      .refine(failing('refine'))
+      .union('kind', {
+        circle: (circle) => {
+          calls.push('union');
+          return circle;
+        },
+      })
+      .validate();
+    const unknownKind = validate({ kind: 'square', radius: -1 }, { maxErrors: 1 })
+      .property('radius', (radius) => radius.positive())
+      .union('kind', { circle: (circle) => circle })
+      .validate();
+    const bailed = validate('', { bail: true }).notEmpty().refine(failing('bail')).validate();
+
+    assertEquals(stopped.error.issues.map((issue) => issue.code), ['positive']);
+    assertEquals(unknownKind.error.issues.map((issue) => issue.code), ['positive']);
+    assertEquals(bailed.error.issues.map((issue) => issue.code), ['notEmpty']);
+    assertEquals(calls, []);
+  });
+
+  await t.step('limits the issues of async rules', async () => {
+    const result = await validate('taken', { bail: true, maxErrors: 2 })
+      .customAsync(() => Promise.resolve(false), 'first')
+      .customAsync(() => Promise.resolve(false), 'second')
+      .validateAsync();
+
+    assertEquals(result.error.issues.map((issue) => issue.message), ['first']);
+  });
+});
@@ -1,30 +1,132 @@
-import { ValidationError } from './errors.ts';
+import { type CancellationError, TechnicalError, ValidationError } from './errors.ts';
+import { formatPath, parsePath } from './issues.ts';
 import { Result } from './result.ts';
+import { type MessageOptions, renderIssue, type UnrenderedIssue } from './messages.ts';
+import { type Check, checks, describeCheck, JSON_SCHEMA_DIALECT } from './checks.ts';
+import type { JsonSchema } from './json-schema.ts';
+import type { RuleSet } from './rule-set.ts';
+
+/**
+ * The rules of a value: a function applying them to its validator, or a reusable rule set
+ */
+export type ValidationRules<T, U = T> = ((validator: Validator<T>) => Validator<U>) | RuleSet<T>;
+
+/**
+ * An asynchronous rule waiting for `validateAsync`, with the issue to report if it fails
+ */
+interface PendingRule {
+  issue: UnrenderedIssue;
+  test: (signal: AbortSignal) => Promise<boolean>;
+}
+
+/**
+ * The type of an object after one of its properties was transformed to `U`; unchanged if the
+ * property keeps its type
+ */
+type WithProperty<T, K extends keyof T, U> = [U] extends [T[K]] ? [T[K]] extends [U] ? T
+  : Replace<T, K, U>
+  : Replace<T, K, U>;
+
+type Replace<T, K extends keyof T, U> = Omit<T, K> & { [P in K]: U } extends infer O
+  ? { [P in keyof O]: O[P] }
+  : never;
+
+/**
+ * Options limiting how many rules run, for fast validation of large inputs
+ */
+export interface ValidatorOptions {
+  /**
+   * Stop validating at the first issue (default: false)
+   */
+  abortEarly?: boolean;
+
+  /**
+   * Stop applying rules to a value once it failed one, so that each value reports at most one
+   * issue (default: false)
+   */
+  bail?: boolean;
+
+  /**
+   * Stop validating once this many issues were found (default: unlimited)
+   */
+  maxErrors?: number;
+}
+
+/**
+ * State shared by the validators of one validation, for the limits of `ValidatorOptions`
+ */
+interface ValidationRun {
+  readonly bail: boolean;
+  readonly maxErrors: number;
+  issueCount: number;
+}
+
+/**
+ * The JSON Schema of a value described by `Validator.toJsonSchema`, and whether the value has a
+ * `required` rule
+ */
+interface Description {
+  readonly schema: JsonSchema;
+  required: boolean;
+}
+
+/**
+ * Options for `Validator.refine`
+ */
+export interface RefineOptions {
+  /**
+   * Path of the property the issue is reported at, such as `'endDate'` or `'items[0].price'`
+   * (default: the validated value)
+   */
+  path?: string | (string | number)[];
+
+  /**
+   * The error message if validation fails; `{path}` is replaced by the path
+   */
+  message?: string;
+}
 
 /**
  * Represents a validation context for building validation rules
  * in a fluent, chainable manner.
  */
 export class Validator<T> {
-  private readonly _value: T;
-  private _errors: string[] = [];
-  private _currentPropertyPath: string[] = [];
+  // Transforms replace the value, so rules and `validate()` see the normalized value
+  private _value: T;
+  // Names of the properties with rules, kept by `stripUnknownKeys()`
+  private _knownKeys = new Set<PropertyKey>();
+  // Unknown keys are stripped from the output, once every property has its rules
+  private _stripUnknownKeys = false;
+  // Issue paths are relative to this validator's value, and messages are rendered by `validate()`
+  private _issues: UnrenderedIssue[] = [];
+  private _pendingRules: PendingRule[] = [];
   private _customErrorMessage?: string;
+  // Number of `lazy` validation functions applied to this value and its ancestors
+  private _depth = 0;
+  private readonly _run: ValidationRun;
+  // Set when the validator describes its rules as a JSON Schema instead of validating a value
+  private readonly _description?: Description;
 
   /**
    * Creates a new validation context for the given value.
    *
    * @param value - The value to validate
+   * @param run - The state shared with the other validators of the validation
+   * @param description - The JSON Schema to describe the rules in, instead of validating the value
    */
-  private constructor(value: T) {
+  private constructor(value: T, run: ValidationRun, description?: Description) {
     this._value = value;
+    this._run = run;
+    this._description = description;
   }
 
   /**
    * Creates a new validator for the specified value.
    *
    * @param value - The value to validate
+   * @param options - Limits on the rules that run, such as `abortEarly` or `maxErrors`
    * @returns A new validator instance
+   * @throws RangeError if `maxErrors` is less than 1
    *
    * @example
    * ```typescript
@@ -36,90 +138,417 @@ export class Validator<T> {
    * const result = userValidator.validate();
    * ```
    */
-  public static for<U>(value: U): Validator<U> {
-    return new Validator<U>(value);
+  public static for<U>(value: U, options: ValidatorOptions = {}): Validator<U> {
+    const { abortEarly = false, bail = false, maxErrors = Infinity } = options;
+    if (!(maxErrors >= 1)) {
+      throw new RangeError(`maxErrors must be at least 1, got ${maxErrors}`);
+    }
+
+    return new Validator<U>(value, { bail, maxErrors: abortEarly ? 1 : maxErrors, issueCount: 0 });
+  }
+
+  /**
+   * Describes validation rules as a JSON Schema (draft 2020-12) document, e.g. for OpenAPI
+   * definitions. Properties, nested objects and arrays become `properties` and `items`, and
+   * properties with a `required` rule are listed as `required`; array properties always are.
+   * Rules without a JSON Schema equivalent, such as `custom`, `refine`, `when`, `dependsOn`,
+   * `union`, `record` and `tuple`, are left out, and recursive `lazy` rules accept any nested
+   * value.
+   *
+   * @param rules - A function or rule set that applies validation rules
+   * @returns The JSON Schema document
+   *
+   * @example
+   * ```typescript
+   * Validator.toJsonSchema<User>((user) =>
+   *   user.property('email', (email) => email.required().isString().email()));
+   * // { type: 'object', properties: { email: { type: 'string', format: 'email' } },
+   * //   required: ['email'] }
+   * ```
+   */
+  public static toJsonSchema<U>(rules: ValidationRules<U>): JsonSchema {
+    const description: Description = { schema: {}, required: false };
+    applyRules(rules, Validator.describer<U>(description, 0));
+    return { $schema: JSON_SCHEMA_DIALECT, ...description.schema };
+  }
+
+  /**
+   * Wraps a validation function so that it can refer to itself, for recursive structures such as
+   * trees or comment threads. Values nested deeper than `maxDepth` applications of the function
+   * fail with a `maxDepth` issue instead of being validated.
+   *
+   * @param validationFn - A function that applies validation rules, possibly using the wrapped
+   * function for nested values
+   * @param options - The maximum nesting depth (default: 32)
+   * @returns The wrapped validation function
+   *
+   * @example
+   * ```typescript
+   * const validateComment: (comment: Validator<Comment>) => Validator<Comment> = Validator.lazy(
+   *   (comment) =>
+   *     comment
+   *       .property('text', (text) => text.notEmpty())
+   *       .array<Comment>('replies', validateComment),
+   *   { maxDepth: 10 },
+   * );
+   * ```
+   */
+  public static lazy<U>(
+    validationFn: (validator: Validator<U>) => Validator<U>,
+    options: { maxDepth?: number } = {},
+  ): (validator: Validator<U>) => Validator<U> {
+    const { maxDepth = 32 } = options;
+
+    return (validator) => {
+      // Describing a recursive structure would never end, so nested values are left undescribed
+      if (validator._description && validator._depth > 0) {
+        return validator;
+      }
+      if (validator._depth >= maxDepth) {
+        validator.addError('maxDepth', undefined, { maxDepth });
+        return validator;
+      }
+
+      validator._depth++;
+      try {
+        return validationFn(validator);
+      } finally {
+        validator._depth--;
+      }
+    };
   }
 
   /**
    * Validate a specific property of the value.
    *
+   * Transforms applied to the property replace it in the validated value.
+   *
    * @param propertyName - The name of the property to validate
-   * @param validationFn - A function that applies validation rules to the property
+   * @param validationFn - A function or rule set that applies validation rules to the property
    * @returns This validator instance for chaining
    */
-  public property<K extends keyof T>(
+  public property<K extends keyof T, U = T[K]>(
     propertyName: K,
-    validationFn: (validator: Validator<T[K]>) => Validator<T[K]>,
-  ): Validator<T> {
-    const propertyValue = this._value[propertyName];
-    this._currentPropertyPath.push(String(propertyName));
-
-    const propertyValidator = Validator.for(propertyValue);
-    validationFn(propertyValidator);
+    validationFn: ValidationRules<T[K], U>,
+  ): Validator<WithProperty<T, K, U>> {
+    if (this.stopped) {
+      return this as unknown as Validator<WithProperty<T, K, U>>;
+    }
+    if (this._description) {
+      this.describeProperty(this._description, String(propertyName), (property) => {
+        applyRules(validationFn, property as Validator<T[K]>);
+      });
+      return this as unknown as Validator<WithProperty<T, K, U>>;
+    }
 
-    this._errors.push(
-      ...propertyValidator._errors.map((error) => {
-        const path = [...this._currentPropertyPath].join('.');
-        return error.replace('{path}', path);
-      }),
-    );
+    const propertyValidator = this.child(this._value[propertyName]);
+    applyRules(validationFn, propertyValidator);
 
-    this._currentPropertyPath.pop();
-    return this;
+    this.addIssuesAt([String(propertyName)], propertyValidator);
+    return this.setProperty<K, U>(propertyName, propertyValidator.output as U);
   }
 
   /**
    * Validate a nested object.
    *
    * @param propertyName - The name of the nested object property
-   * @param validationFn - A function that applies validation rules to the nested object
+   * @param validationFn - A function or rule set that applies validation rules to the nested object
    * @returns This validator instance for chaining
    */
-  public nested<K extends keyof T>(
+  public nested<K extends keyof T, U = T[K]>(
     propertyName: K,
-    validationFn: (validator: Validator<T[K]>) => Validator<T[K]>,
-  ): Validator<T> {
+    validationFn: ValidationRules<T[K], U>,
+  ): Validator<WithProperty<T, K, U>> {
     return this.property(propertyName, validationFn);
   }
 
   /**
    * Validate an array of items.
    *
+   * Transforms applied to the items replace them in the validated value.
+   *
    * @param propertyName - The name of the array property
-   * @param itemValidationFn - A function that applies validation rules to each item
+   * @param validator - A function or rule set that applies validation rules to each item
    * @returns This validator instance for chaining
    */
-  public array<ItemType>(
-    propertyName: Extract<keyof T, string>,
-    validator: (item: Validator<ItemType>) => Validator<ItemType>,
-  ): Validator<T> {
+  public array<
+    ItemType,
+    U = ItemType,
+    K extends Extract<keyof T, string> = Extract<keyof T, string>,
+  >(
+    propertyName: K,
+    validator: ValidationRules<ItemType, U>,
+  ): Validator<[U] extends [ItemType] ? T : WithProperty<T, K, U[]>> {
+    type Output = Validator<[U] extends [ItemType] ? T : WithProperty<T, K, U[]>>;
+    if (this._description) {
+      this.describeProperty(this._description, propertyName, (_, property) => {
+        const item: Description = { schema: {}, required: false };
+        applyRules(validator, Validator.describer<ItemType>(item, this._depth));
+        Object.assign(property.schema, { type: 'array', items: item.schema });
+      }, true);
+      return this as unknown as Output;
+    }
+
     const property = this._value?.[propertyName];
+    this._knownKeys.add(propertyName);
 
     if (!property) {
-      this.addError(`Property '${propertyName}' is missing or null`);
-      return this;
+      this.addError('required', undefined, undefined, [propertyName]);
+      return this as unknown as Output;
     }
 
     if (!Array.isArray(property)) {
-      this.addError(`Property '${propertyName}' is not an array`);
+      this.addError('isArray', undefined, undefined, [propertyName]);
+      return this as unknown as Output;
+    }
+
+    const items: unknown[] = [...property];
+    for (let index = 0; index < items.length && !this.stopped; index++) {
+      const itemValidator = this.child(items[index] as ItemType);
+      applyRules(validator, itemValidator);
+      this.addIssuesAt([propertyName, index], itemValidator);
+      items[index] = itemValidator.output;
+    }
+
+    const changed = items.some((item, index) => item !== property[index]);
+    return (changed ? this.setProperty(propertyName, items) : this) as unknown as Output;
+  }
+
+  /**
+   * Validate a map-like object whose keys and values all follow the same checks.
+   * Key issues are reported at the key's path, like the issues of its value.
+   *
+   * @param keyFn - A function that applies validation rules to each key
+   * @param valueFn - A function that applies validation rules to each value
+   * @returns This validator instance for chaining
+   *
+   * @example
+   * ```typescript
+   * validate(pricesBySku).record(
+   *   (sku) => sku.matches(/^[A-Z]{3}-\d+$/),
+   *   (price) => price.isNumber().positive(),
+   * );
+   * ```
+   */
+  public record<V = T[keyof T]>(
+    keyFn: (key: Validator<string>) => Validator<string>,
+    valueFn: (value: Validator<V>) => Validator<V>,
+  ): Validator<T> {
+    if (this._description) {
+      return this;
+    }
+    if (!checks.isObject().test(this._value)) {
+      return this.apply(checks.isObject());
+    }
+
+    const entries = Object.entries(this._value as Record<string, V>).map(([key, value]) => {
+      if (this.stopped) {
+        return [key, value] as const;
+      }
+
+      const keyValidator = this.child(key);
+      keyFn(keyValidator);
+      this.addIssuesAt([key], keyValidator);
+
+      const valueValidator = this.child(value);
+      valueFn(valueValidator);
+      this.addIssuesAt([key], valueValidator);
+      return [key, valueValidator.output] as const;
+    });
+
+    const current = this._value as Record<string, V>;
+    const changed = entries.some(([key, value]) => value !== current[key]);
+    return changed ? this.transform(() => Object.fromEntries(entries) as T) : this;
+  }
+
+  /**
+   * Validate a fixed-length array with rules for each position.
+   *
+   * @param validators - One function per position that applies validation rules to its item
+   * @returns This validator instance for chaining
+   *
+   * @example
+   * ```typescript
+   * validate(coordinates).tuple([
+   *   (latitude) => latitude.isNumber().min(-90).max(90),
+   *   (longitude) => longitude.isNumber().min(-180).max(180),
+   * ]);
+   * ```
+   */
+  public tuple(
+    validators: {
+      [I in keyof T]: (item: Validator<T[I]>) => Validator<T[I]>;
+    },
+  ): Validator<T> {
+    const fns = validators as unknown as ((item: Validator<unknown>) => Validator<unknown>)[];
+    if (this._description) {
       return this;
     }
+    if (!Array.isArray(this._value)) {
+      return this.apply(checks.isArray());
+    }
+    if (this._value.length !== fns.length) {
+      return this.apply(checks.length(fns.length));
+    }
 
-    this._currentPropertyPath.push(String(propertyName));
+    const current: unknown[] = this._value;
+    const items = fns.map((fn, index) => {
+      if (this.stopped) {
+        return current[index];
+      }
 
-    property.forEach((item, index) => {
-      this._currentPropertyPath.push(`[${index}]`);
-      const itemValidator = Validator.for(item);
-      validator(itemValidator as Validator<ItemType>);
-      this._errors.push(
-        ...itemValidator._errors.map((error) =>
-          error.replace('{path}', [...this._currentPropertyPath].join('.'))
-        ),
-      );
-      this._currentPropertyPath.pop();
+      const itemValidator = this.child(current[index]);
+      fn(itemValidator);
+      this.addIssuesAt([index], itemValidator);
+      return itemValidator.output;
     });
 
-    this._currentPropertyPath.pop();
+    const changed = items.some((item, index) => item !== current[index]);
+    return changed ? this.transform(() => items as T) : this;
+  }
+
+  /**
+   * Validate a tagged union, applying the rules of the member selected by its discriminant.
+   * An unknown discriminant is reported at the discriminant's path.
+   *
+   * @param discriminantKey - The name of the property that tells the members apart
+   * @param cases - One function per discriminant value that applies validation rules to its member
+   * @returns This validator instance for chaining
+   *
+   * @example
+   * ```typescript
+   * validate(shape).union('kind', {
+   *   circle: (circle) => circle.property('radius', (r) => r.positive()),
+   *   rect: (rect) => rect.property('width', (w) => w.positive()).property('height', (h) => h.positive()),
+   * });
+   * ```
+   */
+  public union<K extends keyof T>(
+    discriminantKey: K,
+    cases: {
+      [D in T[K] & PropertyKey]: (
+        validator: Validator<Extract<T, { [P in K]: D }>>,
+      ) => Validator<Extract<T, { [P in K]: D }>>;
+    },
+  ): Validator<T> {
+    if (this.stopped || (this._run.bail && this.failed)) {
+      return this;
+    }
+    if (this._description) {
+      return this;
+    }
+
+    const discriminant = this._value?.[discriminantKey];
+    const branches = cases as Record<PropertyKey, (validator: Validator<T>) => Validator<T>>;
+
+    if (!Object.hasOwn(branches, discriminant as PropertyKey)) {
+      this.addError('oneOf', undefined, { allowed: Object.keys(branches) }, [
+        String(discriminantKey),
+      ]);
+      return this;
+    }
+    branches[discriminant as PropertyKey](this);
+    return this;
+  }
+
+  /**
+   * Validate a property using the values of other properties, such as a VAT number that is only
+   * required for some countries. The rules are skipped if a dependency already failed a rule, so
+   * dependencies should be validated first.
+   *
+   * @param propertyName - The name of the property to validate
+   * @param dependencies - The names of the properties the rules depend on
+   * @param validationFn - A function that applies validation rules to the property, receiving the
+   * values of its dependencies
+   * @returns This validator instance for chaining
+   *
+   * @example
+   * ```typescript
+   * validate(company)
+   *   .property('country', (country) => country.required())
+   *   .dependsOn('vatNumber', ['country'], (vatNumber, { country }) =>
+   *     vatNumber.when(() => EU_COUNTRIES.includes(country), (v) => v.required()))
+   *   .validate();
+   * ```
+   */
+  public dependsOn<K extends keyof T, D extends keyof T, U = T[K]>(
+    propertyName: K,
+    dependencies: readonly D[],
+    validationFn: (validator: Validator<T[K]>, values: Pick<T, D>) => Validator<U>,
+  ): Validator<WithProperty<T, K, U>> {
+    if (this._description) {
+      return this as unknown as Validator<WithProperty<T, K, U>>;
+    }
+
+    const names = new Set(dependencies.map(String));
+    if (this._issues.some((issue) => names.has(String(issue.path[0])))) {
+      this._knownKeys.add(propertyName);
+      return this as unknown as Validator<WithProperty<T, K, U>>;
+    }
+
+    const values = {} as Pick<T, D>;
+    for (const dependency of dependencies) {
+      values[dependency] = this._value[dependency];
+    }
+    return this.property(propertyName, (validator) => validationFn(validator, values));
+  }
+
+  /**
+   * Applies rules only if a condition holds, and optionally other rules if it doesn't.
+   *
+   * @param predicate - The condition, receiving the value
+   * @param then - A function that applies validation rules if the condition holds
+   * @param otherwise - A function that applies validation rules if it doesn't
+   * @returns This validator instance for chaining
+   */
+  public when(
+    predicate: (value: T) => boolean,
+    then: (validator: Validator<T>) => Validator<T>,
+    otherwise?: (validator: Validator<T>) => Validator<T>,
+  ): Validator<T> {
+    if (this._description) {
+      return this;
+    }
+
+    const branch = predicate(this._value) ? then : otherwise;
+    branch?.(this);
+    return this;
+  }
+
+  /**
+   * Applies a cross-field check to the value, reporting its issue at the path of the offending
+   * property rather than at the value itself.
+   *
+   * @param predicate - A function that returns true if valid, false if invalid
+   * @param options - The path and message of the issue if validation fails
+   * @returns This validator instance for chaining
+   *
+   * @example
+   * ```typescript
+   * validate(booking)
+   *   .refine((b) => b.endDate > b.startDate, {
+   *     path: 'endDate',
+   *     message: '{path} must be after the start date',
+   *   })
+   *   .validate();
+   * ```
+   */
+  public refine(predicate: (value: T) => boolean, options: RefineOptions = {}): Validator<T> {
+    if (this.stopped || (this._run.bail && this.failed)) {
+      return this;
+    }
+    if (this._description) {
+      return this;
+    }
+    if (!predicate(this._value)) {
+      const { path = [], message } = options;
+      this.addError(
+        'custom',
+        message,
+        undefined,
+        typeof path === 'string' ? parsePath(path) : path,
+      );
+    }
     return this;
   }
 
@@ -140,10 +569,7 @@ export class Validator<T> {
    * @returns This validator instance for chaining
    */
   public required(): Validator<T> {
-    if (this._value === null || this._value === undefined) {
-      this.addError(this._customErrorMessage || '{path} is required');
-    }
-    return this;
+    return this.apply(checks.required());
   }
 
   /**
@@ -152,10 +578,7 @@ export class Validator<T> {
    * @returns This validator instance for chaining
    */
   public notEmpty(): Validator<T> {
-    if (typeof this._value === 'string' && this._value.trim() === '') {
-      this.addError(this._customErrorMessage || '{path} cannot be empty');
-    }
-    return this;
+    return this.apply(checks.notEmpty());
   }
 
   /**
@@ -165,10 +588,7 @@ export class Validator<T> {
    * @returns This validator instance for chaining
    */
   public maxLength(length: number): Validator<T> {
-    if (typeof this._value === 'string' && this._value.length > length) {
-      this.addError(this._customErrorMessage || `{path} cannot exceed ${length} characters`);
-    }
-    return this;
+    return this.apply(checks.maxLength(length));
   }
 
   /**
@@ -178,10 +598,7 @@ export class Validator<T> {
    * @returns This validator instance for chaining
    */
   public minLength(length: number): Validator<T> {
-    if (typeof this._value === 'string' && this._value.length < length) {
-      this.addError(this._customErrorMessage || `{path} must be at least ${length} characters`);
-    }
-    return this;
+    return this.apply(checks.minLength(length));
   }
 
   /**
@@ -190,10 +607,7 @@ export class Validator<T> {
    * @returns This validator instance for chaining
    */
   public isNumber(): Validator<T> {
-    if (typeof this._value !== 'number' || Number.isNaN(this._value)) {
-      this.addError(this._customErrorMessage || '{path} must be a number');
-    }
-    return this;
+    return this.apply(checks.isNumber());
   }
 
   /**
@@ -203,10 +617,7 @@ export class Validator<T> {
    * @returns This validator instance for chaining
    */
   public min(min: number): Validator<T> {
-    if (typeof this._value === 'number' && this._value < min) {
-      this.addError(this._customErrorMessage || `{path} must be at least ${min}`);
-    }
-    return this;
+    return this.apply(checks.min(min));
   }
 
   /**
@@ -216,10 +627,7 @@ export class Validator<T> {
    * @returns This validator instance for chaining
    */
   public max(max: number): Validator<T> {
-    if (typeof this._value === 'number' && this._value > max) {
-      this.addError(this._customErrorMessage || `{path} cannot exceed ${max}`);
-    }
-    return this;
+    return this.apply(checks.max(max));
   }
 
   /**
@@ -228,11 +636,7 @@ export class Validator<T> {
    * @returns This validator instance for chaining
    */
   public email(): Validator<T> {
-    const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
-    if (typeof this._value === 'string' && !emailRegex.test(this._value)) {
-      this.addError(this._customErrorMessage || '{path} must be a valid email address');
-    }
-    return this;
+    return this.apply(checks.email());
   }
 
   /**
@@ -242,10 +646,7 @@ export class Validator<T> {
    * @returns This validator instance for chaining
    */
   public matches(pattern: RegExp): Validator<T> {
-    if (typeof this._value === 'string' && !pattern.test(this._value)) {
-      this.addError(this._customErrorMessage || '{path} does not match the required pattern');
-    }
-    return this;
+    return this.apply(checks.matches(pattern));
   }
 
   /**
@@ -255,12 +656,206 @@ export class Validator<T> {
    * @returns This validator instance for chaining
    */
   public oneOf(allowedValues: unknown[]): Validator<T> {
-    if (!allowedValues.includes(this._value as unknown)) {
-      this.addError(
-        this._customErrorMessage || `{path} must be one of: ${allowedValues.join(', ')}`,
-      );
-    }
-    return this;
+    return this.apply(checks.oneOf(allowedValues));
+  }
+
+  /**
+   * Validates that a value is a string.
+   *
+   * @returns This validator instance for chaining
+   */
+  public isString(): Validator<T> {
+    return this.apply(checks.isString());
+  }
+
+  /**
+   * Validates that a string or an array has exactly the given length.
+   *
+   * @param length - The required length
+   * @returns This validator instance for chaining
+   */
+  public length(length: number): Validator<T> {
+    return this.apply(checks.length(length));
+  }
+
+  /**
+   * Validates that a string starts with the given prefix.
+   *
+   * @param prefix - The required prefix
+   * @returns This validator instance for chaining
+   */
+  public startsWith(prefix: string): Validator<T> {
+    return this.apply(checks.startsWith(prefix));
+  }
+
+  /**
+   * Validates that a string ends with the given suffix.
+   *
+   * @param suffix - The required suffix
+   * @returns This validator instance for chaining
+   */
+  public endsWith(suffix: string): Validator<T> {
+    return this.apply(checks.endsWith(suffix));
+  }
+
+  /**
+   * Validates that a string is an absolute http or https URL.
+   *
+   * @returns This validator instance for chaining
+   */
+  public url(): Validator<T> {
+    return this.apply(checks.url());
+  }
+
+  /**
+   * Validates that a string is a UUID.
+   *
+   * @returns This validator instance for chaining
+   */
+  public uuid(): Validator<T> {
+    return this.apply(checks.uuid());
+  }
+
+  /**
+   * Validates that a string is an IP address.
+   *
+   * @param version - The required IP version (default: either)
+   * @returns This validator instance for chaining
+   */
+  public ip(version?: 4 | 6): Validator<T> {
+    return this.apply(checks.ip(version));
+  }
+
+  /**
+   * Validates that a string is an ISO 8601 date or date-time, such as `2024-01-31T12:00:00Z`.
+   *
+   * @returns This validator instance for chaining
+   */
+  public isoDate(): Validator<T> {
+    return this.apply(checks.isoDate());
+  }
+
+  /**
+   * Validates that a string is valid JSON.
+   *
+   * @returns This validator instance for chaining
+   */
+  public json(): Validator<T> {
+    return this.apply(checks.json());
+  }
+
+  /**
+   * Validates that a value is an integer.
+   *
+   * @returns This validator instance for chaining
+   */
+  public isInteger(): Validator<T> {
+    return this.apply(checks.isInteger());
+  }
+
+  /**
+   * Validates that a number is greater than zero.
+   *
+   * @returns This validator instance for chaining
+   */
+  public positive(): Validator<T> {
+    return this.apply(checks.positive());
+  }
+
+  /**
+   * Validates that a number is less than zero.
+   *
+   * @returns This validator instance for chaining
+   */
+  public negative(): Validator<T> {
+    return this.apply(checks.negative());
+  }
+
+  /**
+   * Validates that a number is a multiple of the given step.
+   *
+   * @param step - The step, such as `0.01` for amounts in cents
+   * @returns This validator instance for chaining
+   */
+  public multipleOf(step: number): Validator<T> {
+    return this.apply(checks.multipleOf(step));
+  }
+
+  /**
+   * Validates that a value is a boolean.
+   *
+   * @returns This validator instance for chaining
+   */
+  public isBoolean(): Validator<T> {
+    return this.apply(checks.isBoolean());
+  }
+
+  /**
+   * Validates that a value is a valid Date.
+   *
+   * @returns This validator instance for chaining
+   */
+  public isDate(): Validator<T> {
+    return this.apply(checks.isDate());
+  }
+
+  /**
+   * Validates that a Date is before the given date.
+   *
+   * @param date - The exclusive upper bound
+   * @returns This validator instance for chaining
+   */
+  public before(date: Date): Validator<T> {
+    return this.apply(checks.before(date));
+  }
+
+  /**
+   * Validates that a Date is after the given date.
+   *
+   * @param date - The exclusive lower bound
+   * @returns This validator instance for chaining
+   */
+  public after(date: Date): Validator<T> {
+    return this.apply(checks.after(date));
+  }
+
+  /**
+   * Validates that a value is an array.
+   *
+   * @returns This validator instance for chaining
+   */
+  public isArray(): Validator<T> {
+    return this.apply(checks.isArray());
+  }
+
+  /**
+   * Validates that an array has at least the given number of items.
+   *
+   * @param count - The minimum number of items
+   * @returns This validator instance for chaining
+   */
+  public minItems(count: number): Validator<T> {
+    return this.apply(checks.minItems(count));
+  }
+
+  /**
+   * Validates that an array does not exceed the given number of items.
+   *
+   * @param count - The maximum number of items
+   * @returns This validator instance for chaining
+   */
+  public maxItems(count: number): Validator<T> {
+    return this.apply(checks.maxItems(count));
+  }
+
+  /**
+   * Validates that an array has no duplicate items.
+   *
+   * @param by - A function returning the key items are compared by (default: the item itself)
+   * @returns This validator instance for chaining
+   */
+  public unique<Item>(by?: (item: Item) => unknown): Validator<T> {
+    return this.apply(checks.unique(by));
   }
 
   /**
@@ -270,48 +865,430 @@ export class Validator<T> {
    * @param errorMessage - The error message if validation fails
    * @returns This validator instance for chaining
    */
-  public custom(
-    predicate: (value: T) => boolean,
-    errorMessage = 'Validation failed for {path}',
+  public custom(predicate: (value: T) => boolean, errorMessage?: string): Validator<T> {
+    return this.apply(checks.custom(predicate, errorMessage));
+  }
+
+  /**
+   * Removes leading and trailing whitespace from a string.
+   *
+   * @returns This validator instance for chaining
+   */
+  public trim(): Validator<T> {
+    return this.transform((value) => typeof value === 'string' ? value.trim() as T : value);
+  }
+
+  /**
+   * Converts a string to lower case.
+   *
+   * @returns This validator instance for chaining
+   */
+  public toLowerCase(): Validator<T> {
+    return this.transform((value) => typeof value === 'string' ? value.toLowerCase() as T : value);
+  }
+
+  /**
+   * Converts a numeric string, such as a query-string parameter, into a number. Numbers, null and
+   * undefined are kept; any other value fails with an `isNumber` issue.
+   *
+   * @returns This validator instance for chaining
+   */
+  public coerceNumber(): Validator<number | Extract<T, null | undefined>> {
+    return this.coerce(
+      (value) => typeof value === 'string' && value.trim() !== '' ? Number(value) : value,
+      checks.isNumber(),
+    );
+  }
+
+  /**
+   * Converts an ISO 8601 string or a timestamp into a Date. Dates, null and undefined are kept;
+   * any other value fails with an `isDate` issue.
+   *
+   * @returns This validator instance for chaining
+   */
+  public coerceDate(): Validator<Date | Extract<T, null | undefined>> {
+    return this.coerce(
+      (value) => typeof value === 'string' || typeof value === 'number' ? new Date(value) : value,
+      checks.isDate(),
+    );
+  }
+
+  /**
+   * Replaces an undefined value with a default value.
+   *
+   * @param value - The value to use when the value is undefined
+   * @returns This validator instance for chaining
+   */
+  public default<U>(value: U): Validator<Exclude<T, undefined> | U> {
+    return this.transform((current) =>
+      current === undefined ? value : current as Exclude<T, undefined>
+    );
+  }
+
+  /**
+   * Removes the properties of an object that have no rules, such as unexpected fields of a
+   * request body. Properties the output needs must have a rule, even an empty one like
+   * `.property('note', (note) => note)`. Properties are removed from the validated output, so
+   * properties with rules added after this call are kept as well.
+   *
+   * @returns This validator instance for chaining
+   */
+  public stripUnknownKeys(): Validator<T> {
+    this._stripUnknownKeys = true;
+    return this;
+  }
+
+  /**
+   * Applies an asynchronous validation function, such as a lookup in a database. The rule runs
+   * when `validateAsync` is called, and fails if the predicate resolves to false. A predicate that
+   * rejects, such as a lookup whose database is down, fails the validation with a TechnicalError.
+   *
+   * @param predicate - A function that resolves to true if valid, receiving an AbortSignal that is
+   * aborted when the validation is cancelled
+   * @param errorMessage - The error message if validation fails
+   * @returns This validator instance for chaining
+   */
+  public customAsync(
+    predicate: (value: T, signal: AbortSignal) => Promise<boolean>,
+    errorMessage?: string,
   ): Validator<T> {
-    if (!predicate(this._value)) {
-      this.addError(this._customErrorMessage || errorMessage);
+    if (this.stopped || (this._run.bail && this.failed)) {
+      return this;
     }
+
+    const value = this._value;
+    const message = this._customErrorMessage ?? errorMessage;
+    this._pendingRules.push({
+      issue: { path: [], code: 'custom', ...(message !== undefined && { message }) },
+      test: (signal) => predicate(value, signal),
+    });
+    this._customErrorMessage = undefined;
     return this;
   }
 
   /**
    * Execute the validation and return a Result.
+   * On failure, the ValidationError's `issues` locate every failed rule by its path.
    *
+   * @param options - The locale, message catalog and formatter of the error messages
    * @returns A Result indicating success or failure with validation errors
+   * @throws Error if asynchronous rules were added, which require `validateAsync`
+   */
+  public validate(options?: MessageOptions): Result<T, ValidationError> {
+    if (this._pendingRules.length > 0) {
+      throw new Error('Validator has asynchronous rules, use validateAsync() instead');
+    }
+    return this.toResult(this._issues, options);
+  }
+
+  /**
+   * Execute the validation including asynchronous rules, which run in parallel. Asynchronous
+   * rules of values that already failed a synchronous rule are skipped, so lookups don't run on
+   * malformed input. Their issues follow the synchronous ones, within the limits of the
+   * validator's options.
+   *
+   * @param signal - Optional AbortSignal that cancels the validation and the running rules
+   * @param options - The locale, message catalog and formatter of the error messages
+   * @returns A promise of a Result indicating success, failure with validation errors, a
+   * TechnicalError if an asynchronous rule rejected, or cancellation
+   *
+   * @example
+   * ```typescript
+   * const result = await validate(signup)
+   *   .property('email', (email) =>
+   *     email.email().customAsync(async (value, signal) => !(await users.exists(value, signal)),
+   *       '{path} is already registered'))
+   *   .validateAsync(request.signal);
+   * ```
+   */
+  public async validateAsync(
+    signal?: AbortSignal,
+    options?: MessageOptions,
+  ): Promise<Result<T, ValidationError | TechnicalError | CancellationError>> {
+    const failedPaths = new Set(this._issues.map((issue) => formatPath(issue.path)));
+    const pending = this.stopped ? [] : this._pendingRules.filter(
+      (rule) => !failedPaths.has(formatPath(rule.issue.path)),
+    );
+
+    return await Result.ok<T, ValidationError | TechnicalError>(this._value)
+      .toAsync(signal)
+      .flatMap(async (_, ruleSignal) => {
+        const rejections: TechnicalError[] = [];
+        const passed = await Promise.all(
+          pending.map((rule) =>
+            Promise.resolve()
+              .then(() => rule.test(ruleSignal))
+              .catch((error: unknown) => {
+                const path = formatPath(rule.issue.path) || 'value';
+                rejections.push(
+                  new TechnicalError(
+                    `Asynchronous rule of ${path} rejected`,
+                    error instanceof Error ? error : new Error(String(error)),
+                  ),
+                );
+                return false;
+              })
+          ),
+        );
+        // A rejected lookup says nothing about the value; rejections caused by aborting the signal
+        // resolve to the cancelled result instead
+        if (rejections.length > 0 && !ruleSignal.aborted) {
+          return Result.fail<T, ValidationError | TechnicalError>(rejections[0]);
+        }
+        const failed = pending
+          .filter((_, index) => !passed[index])
+          .map((rule) => rule.issue)
+          .filter((issue) => {
+            const path = formatPath(issue.path);
+            const duplicate = this._run.bail && failedPaths.has(path);
+            failedPaths.add(path);
+            return !duplicate;
+          })
+          .slice(0, this._run.maxErrors - this._run.issueCount);
+        return this.toResult([...this._issues, ...failed], options);
+      });
+  }
+
+  /**
+   * Applies a rule to the value, recording an issue if it fails.
+   *
+   * @param check - The rule to apply
+   * @returns This validator instance for chaining
+   */
+  private apply(check: Check): Validator<T> {
+    if (this._description) {
+      this._description.required ||= check.code === 'required';
+      describeCheck(this._description.schema, check);
+      return this;
+    }
+    if (this.stopped || (this._run.bail && this.failed)) {
+      return this;
+    }
+    if (!check.test(this._value)) {
+      this.addError(check.code, check.message, check.params);
+    }
+    return this;
+  }
+
+  /**
+   * Creates the validator of a nested value, sharing the validation's limits and inheriting the
+   * nesting depth of `lazy` functions.
+   *
+   * @param value - The nested value
+   */
+  private child<U>(value: U): Validator<U> {
+    const validator = new Validator(value, this._run);
+    validator._depth = this._depth;
+    return validator;
+  }
+
+  /**
+   * Creates a validator describing the rules applied to it as a JSON Schema.
+   *
+   * @param description - The description the rules are added to
+   * @param depth - The nesting depth of `lazy` functions
    */
-  public validate(): Result<T, ValidationError> {
-    if (this._errors.length === 0) {
-      return Result.ok<T, ValidationError>(this._value);
+  private static describer<U>(description: Description, depth: number): Validator<U> {
+    const validator = new Validator<U>(
+      undefined as U,
+      { bail: false, maxErrors: Infinity, issueCount: 0 },
+      description,
+    );
+    validator._depth = depth;
+    return validator;
+  }
+
+  /**
+   * Adds a property to the JSON Schema of an object.
+   *
+   * @param description - The description of the object
+   * @param propertyName - The name of the property
+   * @param describeFn - A function applying the rules of the property to its describing validator
+   * @param required - Whether the property is required even without a `required` rule
+   */
+  private describeProperty(
+    description: Description,
+    propertyName: string,
+    describeFn: (validator: Validator<unknown>, property: Description) => void,
+    required = false,
+  ): void {
+    const property: Description = { schema: {}, required: false };
+    describeFn(Validator.describer(property, this._depth), property);
+
+    const { schema } = description;
+    schema.type ??= 'object';
+    schema.properties = { ...schema.properties, [propertyName]: property.schema };
+    if ((required || property.required) && !schema.required?.includes(propertyName)) {
+      schema.required = [...schema.required ?? [], propertyName];
     }
+  }
 
-    return Result.fail<T, ValidationError>(new ValidationError(this._errors.join(', ')));
+  /**
+   * Whether the validation found as many issues as `maxErrors` allows, so no more rules run.
+   */
+  private get stopped(): boolean {
+    return this._run.issueCount >= this._run.maxErrors;
+  }
+
+  /**
+   * Whether the value itself failed a rule.
+   */
+  private get failed(): boolean {
+    return this._issues.some((issue) => issue.path.length === 0);
+  }
+
+  /**
+   * The validated value, without the properties `stripUnknownKeys()` removes.
+   */
+  private get output(): T {
+    const value = this._value;
+    if (
+      !this._stripUnknownKeys || typeof value !== 'object' || value === null || Array.isArray(value)
+    ) {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.entries(value).filter(([key]) => this._knownKeys.has(key)),
+    ) as T;
   }
 
   /**
-   * Adds an error message to the validator's error collection.
+   * Replaces the value with the result of a transform function.
    *
-   * @param errorMessage - The error message to add
+   * @param fn - A function receiving the current value
+   * @returns This validator instance, typed for the new value
    */
-  private addError(errorMessage: string): void {
-    const path = this._currentPropertyPath.length > 0
-      ? this._currentPropertyPath.join('.')
-      : 'value';
+  private transform<U>(fn: (value: T) => U): Validator<U> {
+    const validator = this as unknown as Validator<U>;
+    validator._value = fn(this._value);
+    return validator;
+  }
 
-    this._errors.push(errorMessage.replace('{path}', path));
+  /**
+   * Replaces a property of the value, copying the value if the property changed.
+   *
+   * @param propertyName - The name of the property
+   * @param value - The new value of the property
+   * @returns This validator instance, typed for the new value
+   */
+  private setProperty<K extends keyof T, U>(
+    propertyName: K,
+    value: U,
+  ): Validator<WithProperty<T, K, U>> {
+    this._knownKeys.add(propertyName);
+    return this.transform((current) =>
+      (current[propertyName] === value
+        ? current
+        : { ...current, [propertyName]: value }) as WithProperty<T, K, U>
+    );
+  }
+
+  /**
+   * Converts the value with a coercion function, then checks it with a type rule unless it is
+   * null or undefined.
+   *
+   * @param fn - A function converting the value, returning values it can't convert unchanged
+   * @param type - The rule checking the converted value
+   * @returns This validator instance, typed for the converted value
+   */
+  private coerce<U>(fn: (value: unknown) => unknown, type: Check): Validator<
+    U | Extract<T, null | undefined>
+  > {
+    const coerced = this.transform(fn);
+    if (coerced._value !== null && coerced._value !== undefined) {
+      coerced.apply(type);
+    }
+    return coerced as Validator<U | Extract<T, null | undefined>>;
+  }
+
+  /**
+   * Converts the collected issues into a Result, rendering their messages.
+   *
+   * @param issues - The issues of every failed rule
+   * @param options - The locale, message catalog and formatter of the error messages
+   */
+  private toResult(
+    issues: UnrenderedIssue[],
+    options?: MessageOptions,
+  ): Result<T, ValidationError> {
+    if (issues.length === 0) {
+      return Result.ok<T, ValidationError>(this.output);
+    }
+
+    return Result.fail<T, ValidationError>(
+      ValidationError.fromIssues(issues.map((issue) => renderIssue(issue, options))),
+    );
+  }
+
+  /**
+   * Adds an issue for a failed rule to the validator's issue collection.
+   *
+   * @param code - The name of the failed rule
+   * @param errorMessage - A custom error message, used unless one was set with `withMessage`;
+   * without either, the message of the code is taken from the message catalog
+   * @param params - The parameters of the failed rule
+   * @param path - The path of the offending value, relative to this validator's value
+   */
+  private addError(
+    code: string,
+    errorMessage?: string,
+    params?: Record<string, unknown>,
+    path: (string | number)[] = [],
+  ): void {
+    if (this.stopped) {
+      return;
+    }
+
+    this._run.issueCount++;
+    const message = this._customErrorMessage ?? errorMessage;
+    this._issues.push({
+      path,
+      code,
+      ...(message !== undefined && { message }),
+      ...(params && { params }),
+    });
     this._customErrorMessage = undefined;
   }
+
+  /**
+   * Adds the issues and pending asynchronous rules of a validator for a nested value, prefixing
+   * their paths.
+   *
+   * @param prefix - The path of the nested value, relative to this validator's value
+   * @param validator - The validator of the nested value
+   */
+  private addIssuesAt<U>(prefix: (string | number)[], validator: Validator<U>): void {
+    this._issues.push(
+      ...validator._issues.map((issue) => ({ ...issue, path: [...prefix, ...issue.path] })),
+    );
+    this._pendingRules.push(
+      ...validator._pendingRules.map((rule) => ({
+        ...rule,
+        issue: { ...rule.issue, path: [...prefix, ...rule.issue.path] },
+      })),
+    );
+  }
+}
+
+/**
+ * Applies the rules of a value to its validator.
+ *
+ * @param rules - A function applying the rules, or a rule set
+ * @param validator - The validator of the value
+ */
+function applyRules<T, U>(rules: ValidationRules<T, U>, validator: Validator<T>): void {
+  if (typeof rules === 'function') {
+    rules(validator);
+  } else {
+    rules.applyTo(validator);
+  }
 }
 
 /**
  * Shorthand function to start a validation chain.
  *
  * @param value - The value to validate
+ * @param options - Limits on the rules that run, such as `abortEarly` or `maxErrors`
  * @returns A new validator instance
  *
  * @example
@@ -322,95 +1299,21 @@ export class Validator<T> {
  *   .validate();
  * ```
  */
-export function validate<T>(value: T): Validator<T> {
-  return Validator.for(value);
-}
-
-// Zod schema interface
-export interface ZodSchema<T> {
-  parse: (data: unknown) => T;
-}
-
-// Zod error interface
-export interface ZodError {
-  errors: Array<{ path: string[]; message: string }>;
+export function validate<T>(value: T, options?: ValidatorOptions): Validator<T> {
+  return Validator.for(value, options);
 }
 
 /**
- * Integrates with Zod validation library.
+ * Shorthand for `Validator.lazy`, wrapping a validation function for recursive structures.
  *
- * @param schema - A Zod schema
- * @returns A function that converts Zod validation to Result
- *
- * @example
- * ```typescript
- * const userSchema = z.object({
- *   name: z.string().min(1),
- *   email: z.string().email()
- * });
- *
- * const validateUser = fromZod(userSchema);
- * const result = validateUser(userData);
- * ```
+ * @param validationFn - A function that applies validation rules, possibly using the wrapped
+ * function for nested values
+ * @param options - The maximum nesting depth (default: 32)
+ * @returns The wrapped validation function
  */
-export const fromZod = <T>(schema: ZodSchema<T>): (data: T) => Result<T, ValidationError> => {
-  return (data: T) => {
-    try {
-      schema.parse(data);
-      return Result.ok<T, ValidationError>(data);
-    } catch (error) {
-      // Zod provides validation errors in a structured format
-      if ((error as ZodError).errors) {
-        const errorMessages = (error as ZodError).errors.map(
-          (err) => `${err.path.join('.')}: ${err.message}`,
-        );
-        return Result.fail<T, ValidationError>(new ValidationError(errorMessages.join(', ')));
-      }
-      return Result.fail<T, ValidationError>(new ValidationError(String(error)));
-    }
-  };
-};
-
-// Yup schema interface
-export interface YupSchema<T> {
-  validateSync: (data: unknown, options?: { abortEarly?: boolean }) => T;
-}
-
-// Yup error interface
-export interface YupError {
-  inner: Array<{ path: string; message: string }>;
+export function lazy<T>(
+  validationFn: (validator: Validator<T>) => Validator<T>,
+  options?: { maxDepth?: number },
+): (validator: Validator<T>) => Validator<T> {
+  return Validator.lazy(validationFn, options);
 }
-
-/**
- * Integrates with Yup validation library.
- *
- * @param schema - A Yup schema
- * @returns A function that converts Yup validation to Result
- *
- * @example
- * ```typescript
- * const userSchema = yup.object({
- *   name: yup.string().required(),
- *   email: yup.string().email().required()
- * });
- *
- * const validateUser = fromYup(userSchema);
- * const result = validateUser(userData);
- * ```
- */
-export const fromYup = <T>(schema: YupSchema<T>): (data: T) => Result<T, ValidationError> => {
-  return (data: T) => {
-    try {
-      schema.validateSync(data, { abortEarly: false });
-      return Result.ok<T, ValidationError>(data);
-    } catch (error) {
-      if ((error as YupError).inner) {
-        const errorMessages = (error as YupError).inner.map(
-          (err) => `${err.path}: ${err.message}`,
-        );
-        return Result.fail<T, ValidationError>(new ValidationError(errorMessages.join(', ')));
-      }
-      return Result.fail<T, ValidationError>(new ValidationError(String(error)));
-    }
-  };
-};
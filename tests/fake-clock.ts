@@ -0,0 +1,28 @@
+import type { Clock } from '../src/clock.ts';
+
+/**
+ * A clock for tests whose sleeps advance time instantly
+ */
+export interface FakeClock extends Clock {
+  /**
+   * The duration of every sleep, in order
+   */
+  readonly sleeps: number[];
+}
+
+/**
+ * Creates a clock starting at 0 whose sleeps advance time instantly and are recorded
+ */
+export function fakeClock(): FakeClock {
+  let time = 0;
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    now: () => time,
+    sleep: (ms) => {
+      time += ms;
+      sleeps.push(ms);
+      return Promise.resolve();
+    },
+  };
+}